@@ -0,0 +1,258 @@
+// cli/zen-loops.ts
+// The puzzle engine from the terminal: make boards, solve and check level files, draw
+// boards as text, and survey a level config over many seeds. Square boards only.
+// Run with `npm run cli -- <command> [options]`; `npm run cli -- help` lists them.
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+import type { Grid, Ends, Cell, Rot, SolveResult } from '../src/lib/pathfind';
+import {
+  solveRotations, solveNet, computePar, countSolutions, isConnectedStartToEnd, routeSolution, pathCells,
+} from '../src/lib/pathfind';
+import type { GenerateRequest } from '../src/lib/generate';
+import { buildBoard, configFor, isDifficulty } from '../src/lib/generate';
+import type { GameMode } from '../src/lib/saves';
+import { MAX_SIDE, defaultCustom, normalizeCustom } from '../src/lib/custom';
+import type { LevelFile } from '../src/lib/level';
+import { LEVEL_FORMAT, LEVEL_VERSION, validateLevel, solvedGrid, levelToJson } from '../src/lib/level';
+import { codeToSeed, newSeed, seedToCode } from '../src/lib/seed';
+import type { TextStyle } from '../src/lib/textBoard';
+import { renderBoard } from '../src/lib/textBoard';
+import type { Spread } from '../src/lib/survey';
+import { survey } from '../src/lib/survey';
+
+const HELP = `Usage: zen-loops <command> [options]
+
+Commands:
+  generate            Make a board and draw it (or print it as level JSON)
+  solve [file]        Solve a level file, or a generated board when no file is given
+  validate <file...>  Check level and pack files: solvable, par, one solution, stored solution
+  render <file>       Draw the boards in a level or pack file
+  stats               Generate many boards with one config and summarize how hard they are
+
+Board options (generate, solve, stats):
+  -d, --difficulty <easy|medium|hard|daily|custom>   level config (default: easy, or custom with --size)
+  -s, --size <RxC>       board size, e.g. 8x10
+  -b, --blocks <f>       block fraction; stats takes a comma-separated list to compare
+  -m, --mode <path|net>  A→B or Net (default: path)
+      --seed <n>         seed (default: random; stats: first seed, default 1)
+      --code <CODE>      seed as a puzzle code, as shown in the app
+
+Output:
+      --style <box|ascii>  how to draw boards (default: box)
+      --json               generate: print a level file instead of drawing
+      --name <name>        generate --json: the level's name
+      --solved             render: draw each level in its stored solution
+  -n, --seeds <n>          stats: how many boards per config (default: 1000)
+`;
+
+type Opts = {
+  difficulty?: string; size?: string; blocks?: string; mode?: string; seed?: string; code?: string;
+  style?: string; json?: boolean; name?: string; solved?: boolean; seeds?: string; help?: boolean;
+};
+
+class UsageError extends Error {}
+
+function fail(message: string): never {
+  throw new UsageError(message);
+}
+
+// ----- options -----
+function boardRequest(o: Opts, seed: number, blocks = o.blocks): GenerateRequest {
+  const mode: GameMode = o.mode === undefined || o.mode === 'path' ? 'path' : o.mode === 'net' ? 'net' : fail(`Unknown mode "${o.mode}".`);
+  const d = o.difficulty ?? (o.size ? 'custom' : 'easy');
+  if (!isDifficulty(d)) fail(`Unknown difficulty "${d}".`);
+  let custom = defaultCustom();
+  if (o.size !== undefined) {
+    if (d !== 'custom') fail(`--size goes with --difficulty custom.`);
+    const size = o.size.match(/^(\d+)x(\d+)$/) ?? fail(`--size takes rows x cols, e.g. 8x10.`);
+    const rows = Number(size[1]), cols = Number(size[2]);
+    if (Math.min(rows, cols) < 2 || Math.max(rows, cols) > MAX_SIDE) fail(`Boards are 2 to ${MAX_SIDE} tiles a side.`);
+    custom = normalizeCustom({ ...custom, rows, cols, ends: { start: [0, 0], end: [rows - 1, cols - 1] } });
+  }
+  const req: GenerateRequest = { ...configFor(d, custom, mode), mode, seed };
+  if (blocks !== undefined) {
+    const f = Number(blocks);
+    if (!(f >= 0 && f <= 0.35)) fail(`Block fractions go from 0 to 0.35.`);
+    req.blockFraction = f;
+  }
+  return req;
+}
+
+function seedOf(o: Opts, fallback: () => number): number {
+  if (o.code !== undefined) return codeToSeed(o.code) ?? fail(`"${o.code}" isn't a puzzle code.`);
+  if (o.seed === undefined) return fallback();
+  const n = Number(o.seed);
+  return Number.isInteger(n) && n >= 0 && n < 1e9 ? n : fail(`Seeds are whole numbers below 1000000000.`);
+}
+
+const styleOf = (o: Opts): TextStyle =>
+  o.style === undefined || o.style === 'box' ? 'box' : o.style === 'ascii' ? 'ascii' : fail(`Unknown style "${o.style}".`);
+
+const endMarks = (ends: Ends): [Cell, string][] => [[ends.start, 'A'], [ends.end, 'B']];
+const withRots = (grid: Grid, rots: Rot[][]): Grid => grid.map((row, r) => row.map((t, c) => ({ ...t, rot: rots[r][c] })));
+
+function draw(grid: Grid, style: TextStyle, marks: [Cell, string][]): string {
+  const art = renderBoard(grid, style, marks);
+  // box art has no room for letters, so they're listed underneath
+  return style === 'box' && marks.length
+    ? `${art}\n${marks.map(([[r, c], m]) => `${m} at row ${r + 1}, column ${c + 1}`).join(' · ')}`
+    : art;
+}
+
+// Level and pack files both come down to a list of levels
+function readLevels(file: string): { name: string; level: LevelFile | null }[] {
+  let data: unknown;
+  try { data = JSON.parse(readFileSync(file, 'utf8')); } catch (e) { fail(`Can't read ${file}: ${(e as Error).message}`); }
+  const levels = typeof data === 'object' && data !== null && Array.isArray((data as { levels?: unknown }).levels)
+    ? (data as { levels: unknown[] }).levels : [data];
+  return levels.map((v, i) => {
+    const level = validateLevel(v);
+    return { name: level?.name ?? `level ${i + 1}`, level };
+  });
+}
+
+// A level's drawn path, for where the solver gives up
+const levelRoute = (level: LevelFile) => level.solution ? pathCells(solvedGrid(level), level.ends) : undefined;
+
+// The solver's answer, or the board's known route where the search gives up
+function solveWith(grid: Grid, ends: Ends, route?: Cell[]): SolveResult {
+  const sol = solveRotations(grid, ends);
+  return sol === 'capped' && route?.length ? routeSolution(grid, route) : sol;
+}
+
+const unsolved = (sol: SolveResult) => sol === 'capped' ? 'too open for the solver to search' : 'no solution';
+
+// ----- commands -----
+function generate(o: Opts) {
+  const seed = seedOf(o, newSeed), req = boardRequest(o, seed);
+  const { grid, ends, par, route } = buildBoard(req);
+  if (o.json) {
+    if (req.mode === 'net') fail(`Level files are A→B boards; drop --mode net.`);
+    const level: LevelFile = {
+      format: LEVEL_FORMAT, v: LEVEL_VERSION, name: o.name ?? `Puzzle ${seedToCode(seed)}`,
+      grid, ends, par, ...(route?.length ? { solution: routeSolution(grid, route).rots } : {}),
+    };
+    return console.log(levelToJson(level));
+  }
+  console.log(draw(grid, styleOf(o), req.mode === 'path' ? endMarks(ends) : [[ends.start, '*']]));
+  console.log(`\n#${seedToCode(seed)} (seed ${seed}) · ${grid.length}x${grid[0].length} · par ${par ?? 'none'}`);
+}
+
+function solve(o: Opts, file?: string) {
+  const style = styleOf(o);
+  if (file) {
+    for (const { name, level } of readLevels(file)) {
+      if (!level) { console.log(`${name}: not a level\n`); continue; }
+      const sol = solveWith(level.grid, level.ends, levelRoute(level));
+      if (!sol || sol === 'capped') { console.log(`${name}: ${unsolved(sol)}\n`); continue; }
+      console.log(`${name}: ${sol.taps} taps, ${sol.path.length} tiles from A to B`);
+      console.log(draw(withRots(level.grid, sol.rots), style, endMarks(level.ends)));
+      console.log();
+    }
+    return;
+  }
+  const seed = seedOf(o, newSeed), req = boardRequest(o, seed);
+  const { grid, ends, route } = buildBoard(req);
+  if (req.mode === 'net') {
+    const rots = solveNet(grid);
+    console.log(rots ? draw(withRots(grid, rots), style, [[ends.start, '*']]) : 'No solution.');
+  } else {
+    const sol = solveWith(grid, ends, route);
+    console.log(sol && sol !== 'capped' ? `${draw(withRots(grid, sol.rots), style, endMarks(ends))}\n\n${sol.taps} taps` : `${unsolved(sol)}.`);
+  }
+}
+
+// Errors make the exit code 1; a second solution is only a warning, since hand-made levels may allow it
+function validate(files: string[]): boolean {
+  if (!files.length) fail(`validate needs at least one file.`);
+  let ok = true;
+  for (const file of files) {
+    for (const { name, level } of readLevels(file)) {
+      const errors: string[] = [], warnings: string[] = [];
+      if (!level) errors.push('not a valid level');
+      else {
+        const found = solveRotations(level.grid, level.ends), route = levelRoute(level);
+        if (!found) errors.push('no solution');
+        else {
+          // past the search cap, par can only be checked along the stored solution
+          const par = computePar(level.grid, level.ends, undefined, route);
+          if (found === 'capped') warnings.push(`${unsolved(found)}; ${par === null ? 'par not checked' : 'par checked along the stored solution'}`);
+          if (par !== null && level.par !== par) errors.push(`par is ${level.par}, should be ${par}`);
+          if (found !== 'capped' && countSolutions(level.grid, 2, level.ends) > 1) warnings.push('more than one solution');
+        }
+        if (level.solution && !isConnectedStartToEnd(solvedGrid(level), level.ends)) errors.push(`stored solution doesn't join A to B`);
+      }
+      ok &&= !errors.length;
+      const notes = [...errors.map(e => `error: ${e}`), ...warnings.map(w => `warning: ${w}`)];
+      console.log(`${file} · ${name}: ${notes.length ? notes.join('; ') : 'ok'}`);
+    }
+  }
+  return ok;
+}
+
+function render(o: Opts, file?: string) {
+  if (!file) fail(`render needs a file.`);
+  const style = styleOf(o);
+  for (const { name, level } of readLevels(file)) {
+    if (!level) { console.log(`${name}: not a level\n`); continue; }
+    console.log(`${name}${level.author ? ` by ${level.author}` : ''} · par ${level.par ?? 'none'}`);
+    console.log(draw(o.solved ? solvedGrid(level) : level.grid, style, endMarks(level.ends)));
+    console.log();
+  }
+}
+
+const fmt = (s: Spread | null, digits = 0) =>
+  s ? `${s.min.toFixed(digits)} / ${s.median.toFixed(digits)} / ${s.p90.toFixed(digits)} / ${s.max.toFixed(digits)}  (mean ${s.mean.toFixed(digits + 1)})` : '–';
+
+function stats(o: Opts) {
+  const count = o.seeds === undefined ? 1000 : Number(o.seeds);
+  if (!(Number.isInteger(count) && count > 0)) fail(`--seeds takes a positive whole number.`);
+  const first = seedOf(o, () => 1);
+  const seeds = Array.from({ length: count }, (_, i) => first + i);
+  for (const blocks of o.blocks?.split(',') ?? [undefined]) {
+    const req = boardRequest(o, first, blocks);
+    const s = survey(req, seeds);
+    console.log(`${req.mode === 'net' ? 'Net' : 'A→B'} ${req.rows}x${req.cols}, blocks ${req.blockFraction}, minTaps ${req.minTaps}, `
+      + `${req.unique ? 'unique' : 'any solutions'} · seeds ${first}–${first + count - 1}`);
+    console.log(`  boards       ${s.boards}, unsolvable ${s.unsolvable}, too open to search ${s.capped}, unique ${s.unique ?? 'not counted (board too big)'}`);
+    console.log(`  par          ${fmt(s.par)}        min / median / p90 / max`);
+    if (req.mode === 'path') console.log(`  path length  ${fmt(s.pathLength)}`);
+    console.log(`  blocks       ${fmt(s.blocks, 2)}`);
+    console.log(`  ms per board ${fmt(s.ms, 1)}`);
+    console.log();
+  }
+}
+
+// ----- main -----
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv, allowPositionals: true, strict: true,
+    options: {
+      difficulty: { type: 'string', short: 'd' }, size: { type: 'string', short: 's' },
+      blocks: { type: 'string', short: 'b' }, mode: { type: 'string', short: 'm' },
+      seed: { type: 'string' }, code: { type: 'string' }, style: { type: 'string' },
+      json: { type: 'boolean' }, name: { type: 'string' }, solved: { type: 'boolean' },
+      seeds: { type: 'string', short: 'n' }, help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const o: Opts = values;
+  const [command, ...args] = positionals;
+  if (o.help || !command || command === 'help') { console.log(HELP); return 0; }
+  if (command === 'generate') generate(o);
+  else if (command === 'solve') solve(o, args[0]);
+  else if (command === 'validate') return validate(args) ? 0 : 1;
+  else if (command === 'render') render(o, args[0]);
+  else if (command === 'stats') stats(o);
+  else fail(`Unknown command "${command}".`);
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  // parseArgs reports unknown options with a TypeError carrying a code
+  if (!(e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS'))) throw e;
+  console.error(`zen-loops: ${(e as Error).message}\nRun "zen-loops help" for usage.`);
+  process.exitCode = 2;
+}
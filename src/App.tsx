@@ -1,17 +1,49 @@
 // src/App.tsx
+import { useState } from 'react';
 import GameBoard from './components/GameBoard';
+import StatsView from './components/StatsView';
+import LevelEditor from './components/LevelEditor';
+import SettingsView from './components/SettingsView';
+import RaceView from './components/RaceView';
+import ReplayView from './components/ReplayView';
+
+type View = 'play' | 'race' | 'replay' | 'stats' | 'editor' | 'settings';
+const VIEWS: [View, string][] = [
+  ['play', 'Play'], ['race', 'Race'], ['replay', 'Replay'], ['stats', 'Stats'], ['editor', 'Editor'], ['settings', 'Settings'],
+];
 
 export default function App() {
+  const [view, setView] = useState<View>('play');
+
   return (
     <div className="min-h-full grid place-items-start app-shell py-3">
       <main className="w-full max-w-2xl rounded-2xl shadow-soft bg-surface p-4 sm:p-6">
-        <header className="mb-2">
-          <h1 className="text-2xl font-semibold">Zen Loops</h1>
-          <p className="text-white/70">A calm, lightweight puzzle.</p>
+        <header className="mb-2 flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <h1 className="text-2xl font-semibold">Zen Loops</h1>
+            <p className="text-white/70">A calm, lightweight puzzle.</p>
+          </div>
+          <nav className="flex gap-1" aria-label="View">
+            {VIEWS.map(([v, label]) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                aria-current={view === v ? 'page' : undefined}
+                className={`px-3 py-1.5 rounded-xl border text-sm ${view === v ? 'bg-white/15 border-white/20 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </nav>
           {/* The solved message will appear just beneath this header (rendered by GameBoard). */}
         </header>
 
-        <GameBoard />
+        {view === 'play' && <GameBoard onReplay={() => setView('replay')} />}
+        {view === 'race' && <RaceView />}
+        {view === 'replay' && <ReplayView />}
+        {view === 'stats' && <StatsView />}
+        {view === 'editor' && <LevelEditor />}
+        {view === 'settings' && <SettingsView />}
       </main>
     </div>
   );
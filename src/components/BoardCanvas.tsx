@@ -0,0 +1,172 @@
+// src/components/BoardCanvas.tsx
+// One <canvas> for boards too big for a button per tile. Same gestures as TileView;
+// the keyboard cursor is drawn here and read out through the live region in GameBoard.
+import { useEffect, useRef } from 'react';
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
+import type { Grid, Cell, Rot, Tile } from '../lib/pathfind';
+import type { Gesture } from '../lib/gestures';
+import type { Point } from '../lib/useGestures';
+import { useGestures } from '../lib/useGestures';
+import { activePalette } from '../lib/theme';
+
+type Props = {
+  grid: Grid;
+  tileSize: number;
+  gap: number;
+  strokePx: number;
+  reach: Uint8Array;          // connected to A / the source, by cell index
+  onPath: (i: number) => boolean;
+  ends?: { start: Cell; end: Cell }; // A/B badges (path mode)
+  hint?: { r: number; c: number; rot: Rot };
+  cursor: Cell;
+  label: string;
+  describedBy?: string;
+  onGesture: (r: number, c: number, g: Gesture) => void;
+  onKeyDown: (e: ReactKeyboardEvent) => void;
+};
+
+const CURSOR = 'rgba(255, 255, 255, 0.8)';
+
+// Arms at rotation 0, as [x1, y1, x2, y2] on a 64-unit tile, like the segments in Tile.tsx.
+// Square pieces only: hex boards are always laid out as HexTiles.
+const ARMS: Partial<Record<Tile['type'], number[][]>> = {
+  end: [[32, 14, 32, 32]],
+  straight: [[32, 6, 32, 58]],
+  corner: [[32, 6, 32, 32], [32, 32, 58, 32]],
+  tee: [[8, 32, 56, 32], [32, 6, 32, 32]],
+  cross: [[8, 32, 56, 32], [32, 8, 32, 56]],
+  block: [[18, 18, 46, 46], [46, 18, 18, 46]],
+};
+
+function drawPipes(ctx: CanvasRenderingContext2D, type: Tile['type'], rot: number, size: number, width: number) {
+  ctx.save();
+  ctx.translate(size / 2, size / 2);
+  ctx.rotate((rot * Math.PI) / 2);
+  ctx.scale(size / 64, size / 64);
+  ctx.translate(-32, -32);
+  ctx.lineWidth = (width * 64) / size;
+  ctx.beginPath();
+  for (const [x1, y1, x2, y2] of ARMS[type] ?? []) { ctx.moveTo(x1, y1); ctx.lineTo(x2, y2); }
+  ctx.stroke();
+  ctx.restore();
+}
+
+// The same state glyphs as StateMarker, bottom left: a check on the solved path, a dot when connected
+function drawMarker(ctx: CanvasRenderingContext2D, solved: boolean, size: number) {
+  const m = size * 0.18, x = size * 0.1, y = size * 0.9 - m;
+  ctx.beginPath();
+  if (solved) {
+    ctx.lineWidth = Math.max(1, m / 4);
+    ctx.moveTo(x + m * 0.15, y + m * 0.55); ctx.lineTo(x + m * 0.4, y + m * 0.8); ctx.lineTo(x + m * 0.85, y + m * 0.2);
+    ctx.stroke();
+  } else {
+    ctx.arc(x + m / 2, y + m / 2, m / 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+function drawBoard(ctx: CanvasRenderingContext2D, p: Props, focused: boolean) {
+  const { grid, tileSize: size, gap, strokePx } = p;
+  const colors = activePalette();
+  const cols = grid[0]?.length ?? 0;
+  const radius = Math.min(8, size / 4);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.lineCap = 'round';
+
+  grid.forEach((row, r) => row.forEach((t, c) => {
+    const i = r * cols + c;
+    ctx.save();
+    ctx.translate(c * (size + gap), r * (size + gap));
+    ctx.beginPath();
+    ctx.roundRect(0, 0, size, size, radius);
+    ctx.fillStyle = t.type === 'block' ? colors.block : t.locked ? colors.tileLocked : colors.tile;
+    ctx.fill();
+    if (p.reach[i] && t.type !== 'block') {
+      ctx.strokeStyle = colors.primary;
+      ctx.globalAlpha = 0.6;
+      ctx.lineWidth = Math.max(1, size / 20);
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
+
+    if (t.type === 'block') {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+      drawPipes(ctx, 'block', 0, size, Math.max(1, strokePx - 2));
+    } else {
+      ctx.strokeStyle = p.onPath(i) ? colors.primary : colors.line;
+      drawPipes(ctx, t.type, t.rot, size, strokePx);
+      if (p.reach[i] && size >= 12) {
+        ctx.strokeStyle = ctx.fillStyle = colors.primary;
+        drawMarker(ctx, p.onPath(i), size);
+      }
+    }
+    if (p.hint && p.hint.r === r && p.hint.c === c) {
+      ctx.strokeStyle = colors.accent;
+      ctx.setLineDash([4, 6]);
+      drawPipes(ctx, t.type, p.hint.rot, size, Math.max(1, strokePx / 2));
+      ctx.setLineDash([]);
+    }
+    if (t.locked) { // small padlock dot, top right
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.fillRect(size * 0.72, size * 0.1, size * 0.16, size * 0.14);
+    }
+    const badge = p.ends && (r === p.ends.start[0] && c === p.ends.start[1] ? 'A' : r === p.ends.end[0] && c === p.ends.end[1] ? 'B' : null);
+    if (badge && size >= 14) {
+      ctx.fillStyle = badge === 'A' ? colors.primary : colors.accent;
+      ctx.font = `600 ${Math.max(8, Math.round(size / 3.5))}px system-ui, sans-serif`;
+      ctx.textBaseline = 'top';
+      ctx.fillText(badge, size * 0.1, size * 0.06);
+    }
+    if (focused && p.cursor[0] === r && p.cursor[1] === c) {
+      ctx.beginPath();
+      ctx.roundRect(1, 1, size - 2, size - 2, radius);
+      ctx.strokeStyle = CURSOR;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+    ctx.restore();
+  }));
+}
+
+export default function BoardCanvas(props: Props) {
+  const { grid, tileSize, gap, label, describedBy, onGesture, onKeyDown } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const focused = useRef(false);
+  const rows = grid.length, cols = grid[0]?.length ?? 0;
+  const width = cols * tileSize + (cols - 1) * gap, height = rows * tileSize + (rows - 1) * gap;
+
+  const cellAt = ({ x, y }: Point): Cell | null => {
+    const c = Math.floor(x / (tileSize + gap)), r = Math.floor(y / (tileSize + gap));
+    return r >= 0 && c >= 0 && r < rows && c < cols ? [r, c] : null;
+  };
+  const gestures = useGestures(
+    (g, at) => { const cell = cellAt(at); if (cell) onGesture(cell[0], cell[1], g); },
+    { enabled: (at) => { const cell = cellAt(at); return !!cell && grid[cell[0]][cell[1]].type !== 'block'; }, tileWidth: tileSize },
+  );
+
+  // redraw on every change; cheap next to the DOM a button per tile would need
+  const draw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) { ctx.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0); drawBoard(ctx, props, focused.current); }
+  };
+  useEffect(draw);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(width * devicePixelRatio)}
+      height={Math.round(height * devicePixelRatio)}
+      style={{ width, height }}
+      className="touch-none select-none rounded-xl outline-none"
+      tabIndex={0}
+      role="application"
+      aria-roledescription="puzzle board"
+      aria-label={label}
+      aria-describedby={describedBy}
+      onFocus={() => { focused.current = true; draw(); }}
+      onBlur={() => { focused.current = false; draw(); }}
+      onKeyDown={onKeyDown}
+      {...gestures}
+    />
+  );
+}
@@ -0,0 +1,81 @@
+// src/components/CampaignPanel.tsx
+import { useEffect, useState } from 'react';
+import type { LevelRef } from '../lib/saves';
+import type { PackRef, LevelPack, CampaignProgress } from '../lib/campaign';
+import { loadManifest, loadPack, isUnlocked } from '../lib/campaign';
+import { starText } from '../lib/score';
+
+type Props = {
+  current?: LevelRef;
+  progress: CampaignProgress;
+  onOpen: (ref: LevelRef) => void;
+};
+
+export default function CampaignPanel({ current, progress, onOpen }: Props) {
+  const [packs, setPacks] = useState<PackRef[] | null>(null);
+  const [packId, setPackId] = useState(current?.pack);
+  const [pack, setPack] = useState<LevelPack | null>(null);
+  const shownId = packId ?? packs?.[0]?.id;
+
+  useEffect(() => { loadManifest().then(setPacks); }, []);
+  useEffect(() => { if (current) setPackId(current.pack); }, [current]);
+  useEffect(() => {
+    if (!shownId) return;
+    let live = true;
+    loadPack(shownId).then(p => { if (live) setPack(p); });
+    return () => { live = false; };
+  }, [shownId]);
+
+  if (packs === null) return <p className="mb-2 text-sm text-white/50">Loading levels…</p>;
+  if (!packs.length) return <p className="mb-2 text-sm text-accent/90">Couldn't load the level packs. Check your connection and try again.</p>;
+
+  const level = current && pack?.id === current.pack ? pack.levels[current.index] : undefined;
+
+  return (
+    <div className="mb-2 text-sm text-white/70">
+      <div className="flex flex-wrap items-center gap-2 mb-1">
+        <label htmlFor="pack" className="sr-only">Level pack</label>
+        <select
+          id="pack"
+          className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+          value={shownId}
+          onChange={(e) => setPackId(e.target.value)}
+        >
+          {packs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {pack && pack.id === shownId && (
+          <div className="flex flex-wrap gap-1" role="group" aria-label={`${pack.name} levels`}>
+            {pack.levels.map((l, index) => {
+              const ref = { pack: pack.id, index };
+              const best = progress[pack.id]?.[index];
+              const open = isUnlocked(progress, ref);
+              const here = current?.pack === pack.id && current.index === index;
+              return (
+                <button
+                  key={index}
+                  disabled={!open}
+                  aria-current={here || undefined}
+                  aria-label={`Level ${index + 1}, ${l.name}${!open ? ', locked' : best ? `, done in ${best.moves} moves` : ''}`}
+                  title={best?.stars ? `${l.name} · ${starText(best.stars)}` : l.name}
+                  onClick={() => onOpen(ref)}
+                  className={[
+                    'min-w-8 px-2 py-1 rounded-lg border tabular-nums disabled:opacity-40',
+                    here ? 'bg-primary/20 border-primary/50 text-white' : best ? 'bg-white/10 border-white/15 text-white/90' : 'bg-white/5 border-white/10',
+                  ].join(' ')}
+                >
+                  {open ? index + 1 : '🔒'}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      {level && (
+        <p>
+          <span className="text-white/90">{current!.index + 1}. {level.name}</span>
+          {level.author && <span className="text-white/50"> by {level.author}</span>}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+// src/components/CustomBoardForm.tsx
+import { useState } from 'react';
+import type { Cell, Ends } from '../lib/pathfind';
+import type { CustomConfig } from '../lib/custom';
+import { MAX_SIDE, normalizeCustom } from '../lib/custom';
+
+type Props = {
+  value: CustomConfig;
+  showEnds?: boolean;  // A/B only matter on path boards
+  onCreate: (cfg: CustomConfig) => void;
+};
+
+const inputCls = "w-12 bg-white/10 text-white/90 border border-white/10 rounded-lg px-1.5 py-0.5 text-sm";
+
+export default function CustomBoardForm({ value, showEnds = true, onCreate }: Props) {
+  const [draft, setDraft] = useState(value);
+  const num = (v: string) => Number(v);
+  const setCell = (which: keyof Ends, i: 0 | 1, v: string) => {
+    const cell = [...draft.ends[which]] as Cell;
+    cell[i] = num(v) - 1; // 1-based in the form
+    setDraft({ ...draft, ends: { ...draft.ends, [which]: cell } });
+  };
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2 text-sm text-white/70"
+      onSubmit={(e) => { e.preventDefault(); const cfg = normalizeCustom(draft); setDraft(cfg); onCreate(cfg); }}
+    >
+      <label className="flex items-center gap-1">
+        Size
+        <input type="number" min={2} max={MAX_SIDE} aria-label="Rows" className={inputCls}
+          value={draft.rows} onChange={(e) => setDraft({ ...draft, rows: num(e.target.value) })} />
+        ×
+        <input type="number" min={2} max={MAX_SIDE} aria-label="Columns" className={inputCls}
+          value={draft.cols} onChange={(e) => setDraft({ ...draft, cols: num(e.target.value) })} />
+      </label>
+      <label className="flex items-center gap-1">
+        Blocks %
+        <input type="number" min={0} max={35} step={1} className={inputCls}
+          value={Math.round(draft.blockFraction * 100)}
+          onChange={(e) => setDraft({ ...draft, blockFraction: num(e.target.value) / 100 })} />
+      </label>
+      {showEnds && (['start', 'end'] as const).map(which => (
+        <label key={which} className="flex items-center gap-1">
+          <span className={which === 'start' ? 'text-primary' : 'text-accent'}>{which === 'start' ? 'A' : 'B'}</span>
+          <input type="number" min={1} max={draft.rows} aria-label={`${which === 'start' ? 'A' : 'B'} row`} className={inputCls}
+            value={draft.ends[which][0] + 1} onChange={(e) => setCell(which, 0, e.target.value)} />
+          <input type="number" min={1} max={draft.cols} aria-label={`${which === 'start' ? 'A' : 'B'} column`} className={inputCls}
+            value={draft.ends[which][1] + 1} onChange={(e) => setCell(which, 1, e.target.value)} />
+        </label>
+      ))}
+      <button
+        type="submit"
+        className="px-3 py-1 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm"
+      >
+        Create
+      </button>
+    </form>
+  );
+}
@@ -1,92 +1,294 @@
 // src/components/GameBoard.tsx
-import { useEffect, useMemo, useState, useLayoutEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useState, useLayoutEffect, useRef } from 'react';
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react';
 import TileView from './Tile';
+import HexTile from './HexTile';
+import CustomBoardForm from './CustomBoardForm';
+import CampaignPanel from './CampaignPanel';
+import BoardCanvas from './BoardCanvas';
+
+import type { Grid, Rot, Ends, Cell, Connectivity, Topology, TopologyKind } from '../lib/pathfind';
+import type { Gesture } from '../lib/gestures';
+import { rotFacing } from '../lib/gestures';
+import { updateConnectivity, pathIndexes, pathCells, distancesFrom, solveRotations, routeSolution, rotSatisfies, isNetSolved, solveNet } from '../lib/pathfind';
+import { TOPOLOGIES } from '../lib/topology';
+import { hexTileAt, hexBoardSize, hexFit, HEX_RATIO } from '../lib/hexLayout';
+import type { Generated, GenerateRequest, GeneratedBoard } from '../lib/generate';
+import { DIFFS, buildBoard, configFor, isDifficulty } from '../lib/generate';
+import { generateBoard } from '../lib/generateInWorker';
+import type { History } from '../lib/history';
+import { emptyHistory, record, setRot, undo, redo } from '../lib/history';
+import { newSeed, seedToCode, codeToSeed } from '../lib/seed';
+import type { DailyLog } from '../lib/daily';
+import { dateKey, dailySeed, loadDailyLog, startDaily, finishDaily, streaks } from '../lib/daily';
+import { starsFor, starText } from '../lib/score';
+import type { CustomConfig } from '../lib/custom';
+import { loadCustom, saveCustom, customToParams, customFromParams } from '../lib/custom';
+import type { GameMode, Difficulty, SaveSlot, LevelRef } from '../lib/saves';
+import { SAVE_VERSION, newSlotId, listSlots, getSlot, putSlot, getLastPlayed, setLastPlayed } from '../lib/saves';
+import { logGame, formatTime } from '../lib/stats';
+import type { Recording } from '../lib/replay';
+import { startRecording, addStep } from '../lib/replay';
+import type { Result } from '../lib/versus';
+import { canSign, compareResults, challengeQuery, readChallenge } from '../lib/versus';
+import { tileLabel } from '../lib/describe';
+import type { LevelPack, CampaignProgress } from '../lib/campaign';
+import { loadManifest, loadPack, loadProgress, recordLevel, nextLevel, resumeLevel } from '../lib/campaign';
+import { solvedGrid } from '../lib/level';
 
-import type { Grid, Dir } from '../lib/pathfind';
-import { tileDirs, generateMazeGrid, connectedFromStart } from '../lib/pathfind';
+// ----- helpers -----
+function freshGame({ grid, ends, par, route }: GeneratedBoard, { seed, mode, topology }: GenerateRequest, difficulty: Generated): SaveSlot {
+  const now = Date.now();
+  return {
+    v: SAVE_VERSION, id: newSlotId(), mode, difficulty, grid, ends, history: emptyHistory(), seed,
+    par, moves: 0, elapsedMs: 0, hintsUsed: 0, solved: false, createdAt: now, updatedAt: now, topology, log: startRecording(grid), route,
+  };
+}
 
-// ----- difficulty config -----
-type Difficulty = 'easy' | 'medium' | 'hard';
-const DIFFS: Record<Difficulty, { rows: number; cols: number; blockFraction: number }> = {
-  easy:   { rows: 5, cols: 5, blockFraction: 0.08 },
-  medium: { rows: 6, cols: 6, blockFraction: 0.14 },
-  hard:   { rows: 7, cols: 7, blockFraction: 0.20 },
-};
+// Square boards past this many cells are drawn on one canvas instead of a button per tile
+const CANVAS_CELLS = 225;
+
+// The flow along a solved board moves one tile per step, sped up so it never takes longer than FLOW_MAX_MS
+const FLOW_STEP_MS = 60, FLOW_MAX_MS = 2400;
+
+// A campaign level always starts from the pack's board; par comes with it, and the route from its drawn solution.
+function levelGame(pack: LevelPack, index: number): SaveSlot {
+  const level = pack.levels[index], { grid, ends, par } = level;
+  const now = Date.now();
+  return {
+    v: SAVE_VERSION, id: newSlotId(), mode: 'path', difficulty: 'campaign', grid, ends, history: emptyHistory(),
+    par, moves: 0, elapsedMs: 0, hintsUsed: 0, solved: false, createdAt: now, updatedAt: now, level: { pack: pack.id, index },
+    log: startRecording(grid), route: level.solution ? pathCells(solvedGrid(level), ends) : undefined,
+  };
+}
+const ADVANCE_MS = 1800; // pause on a solved campaign level before the next one opens
+
+// most recently played board for a level that isn't finished yet
+const latestOpen = (mode: GameMode, d: Difficulty, t: TopologyKind = 'square') => listSlots(mode, d, t).find(s => !s.solved) ?? null;
+
+// Daily and the campaign are square A→B boards only
+const generatedOnly = (d: Difficulty, mode: GameMode, t: TopologyKind) => (mode === 'net' || t === 'hex') && (d === 'daily' || d === 'campaign');
+
+const sameEnds = (a: Ends, b: Ends) => a.start.join() === b.start.join() && a.end.join() === b.end.join();
+
+type Pending = { req: GenerateRequest; difficulty: Generated };
+
+// A shared link (?d=hard&seed=CODE) wins over the saved board unless it's the same puzzle.
+// Custom links also carry the size, blocks and A/B (see lib/custom); Net links add m=net, hex links t=hex.
+// A linked board that isn't saved yet comes back as `pending`, generated in the worker after mount.
+function initialGame(): { slot: SaveSlot; custom: CustomConfig; pending?: Pending } {
+  const params = new URLSearchParams(window.location.search);
+  const d = params.get('d'), code = params.get('seed');
+  const mode: GameMode = params.get('m') === 'net' ? 'net' : 'path';
+  const topology: TopologyKind = params.get('t') === 'hex' ? 'hex' : 'square';
+  const seed = code ? codeToSeed(code) : null;
+  const linked = d === 'custom' ? customFromParams(params) : null;
+  const custom = linked ?? loadCustom();
+  if (isDifficulty(d) && seed !== null && (d !== 'custom' || linked) && !generatedOnly(d, mode, topology)) {
+    const cfg = configFor(d, custom, mode);
+    const saved = listSlots(mode, d, topology).find(s => s.seed === seed && (!cfg.ends || sameEnds(s.ends, cfg.ends)));
+    if (saved) return { slot: saved, custom };
+    return { slot: lastOrEasy(), custom, pending: { req: { ...cfg, mode, seed, topology }, difficulty: d } };
+  }
+  return { slot: lastOrEasy(), custom };
+}
 
-function makeGridFor(d: Difficulty): Grid {
-  const cfg = DIFFS[d];
-  return generateMazeGrid(cfg.rows, cfg.cols, cfg.blockFraction);
+// The board to show at start-up; a first visit gets a small easy board, quick enough to make right here.
+function lastOrEasy(): SaveSlot {
+  const last = getLastPlayed();
+  const saved = (last && getSlot(last.mode, last.difficulty, last.id, last.topology)) ?? latestOpen('path', 'easy');
+  if (saved) return saved;
+  const req: GenerateRequest = { ...DIFFS.easy, mode: 'path', seed: newSeed() };
+  return freshGame(buildBoard(req), req, 'easy');
 }
 
-// ----- helpers -----
-const dirVec: Record<Dir, [number, number]> = {
-  N: [-1, 0], E: [0, 1], S: [1, 0], W: [0, -1],
-};
-const opp: Record<Dir, Dir> = { N: 'S', S: 'N', E: 'W', W: 'E' };
-const keyOf = (r: number, c: number) => `${r},${c}`;
-const inBounds = (r: number, c: number, R: number, C: number) => r >= 0 && c >= 0 && r < R && c < C;
-
-// Find ONE valid path from A(0,0) to B(R-1,C-1) following current rotations.
-function computeSolvedPath(grid: Grid): Set<string> {
-  const R = grid.length, C = grid[0]?.length ?? 0;
-  const start = keyOf(0, 0), goal = keyOf(R - 1, C - 1);
-  const q: [number, number][] = [[0, 0]];
-  const seen = new Set<string>([start]);
-  const parent = new Map<string, string>();
-
-  while (q.length) {
-    const [r, c] = q.shift()!;
-    const k = keyOf(r, c);
-    if (k === goal) break;
-
-    for (const d of tileDirs(grid[r][c])) {
-      const [dr, dc] = dirVec[d];
-      const nr = r + dr, nc = c + dc;
-      if (!inBounds(nr, nc, R, C)) continue;
-      if (!tileDirs(grid[nr][nc]).includes(opp[d])) continue;
-
-      const nk = keyOf(nr, nc);
-      if (!seen.has(nk)) {
-        seen.add(nk);
-        parent.set(nk, k);
-        q.push([nr, nc]);
-      }
-    }
-  }
+function boardQuery(d: Difficulty, mode: GameMode, topology: TopologyKind, seed: number, custom: CustomConfig): string {
+  const extra = (mode === 'net' ? '&m=net' : '') + (topology === 'hex' ? '&t=hex' : '')
+    + (d === 'custom' ? `&${customToParams(custom)}` : '');
+  return `d=${d}&seed=${seedToCode(seed)}${extra}`;
+}
+const linkTo = (query: string) => `${window.location.origin}${window.location.pathname}?${query}`;
 
-  if (!parent.has(goal) && start !== goal) return new Set();
-  const path = new Set<string>();
-  let cur = goal;
-  path.add(cur);
-  while (cur !== start) {
-    const p = parent.get(cur);
-    if (!p) return new Set();
-    path.add(p);
-    cur = p;
-  }
-  return path;
+// A challenge link's board and the sender's result on it (see lib/versus)
+type Challenge = Result & { seed: number; difficulty: Difficulty; mode: GameMode; topology: TopologyKind };
+
+async function linkedChallenge(params: URLSearchParams): Promise<Challenge | null> {
+  const d = params.get('d'), code = params.get('seed'), seed = code ? codeToSeed(code) : null;
+  const result = await readChallenge(params);
+  if (!result || seed === null || !isDifficulty(d)) return null;
+  return { ...result, seed, difficulty: d, mode: params.get('m') === 'net' ? 'net' : 'path', topology: params.get('t') === 'hex' ? 'hex' : 'square' };
 }
 
-function save(d: Difficulty, g: Grid) {
-  localStorage.setItem(`zenloops:${d}`, JSON.stringify(g));
+function ChallengeResult({ mine, theirs }: { mine: Result; theirs: Result }) {
+  const order = compareResults(mine, theirs);
+  return (
+    <>
+      You: <b>{mine.moves}</b> moves, <b>{formatTime(mine.timeMs)}</b> · Challenger: <b>{theirs.moves}</b> moves, <b>{formatTime(theirs.timeMs)}</b>
+      {' '}<span className={order < 0 ? 'text-primary' : order > 0 ? 'text-accent' : ''}>
+        {order < 0 ? 'You win!' : order > 0 ? 'They win this one.' : 'A dead heat!'}
+      </span>
+    </>
+  );
 }
-function load(d: Difficulty): Grid | null {
-  try {
-    const raw = localStorage.getItem(`zenloops:${d}`);
-    return raw ? (JSON.parse(raw) as Grid) : null;
-  } catch { return null; }
+
+// 'capped': the solver gave up on a board too open to search, and there's no known route to fall back on
+type TileHint = { r: number; c: number; rot: Rot };
+type Hint = TileHint | 'unsolvable' | 'capped';
+const isTileHint = (h: Hint | null): h is TileHint => typeof h === 'object' && h !== null;
+
+// Pick one tile whose current rotation is wrong: on the solver's path (or the board's known route), or anywhere on a Net board.
+function findHint(grid: Grid, ends: Ends, mode: GameMode, topo: Topology, route?: Cell[]): Hint | null {
+  if (mode === 'net') {
+    const rots = solveNet(grid, topo);
+    if (!rots) return 'unsolvable';
+    for (let r = 0; r < grid.length; r++) for (let c = 0; c < grid[r].length; c++) {
+      if (!rotSatisfies(grid[r][c], rots[r][c], topo)) return { r, c, rot: rots[r][c] };
+    }
+    return null;
+  }
+  const found = solveRotations(grid, ends, topo);
+  if (!found) return 'unsolvable';
+  if (found === 'capped' && !route?.length) return 'capped';
+  const sol = found === 'capped' ? routeSolution(grid, route!, topo) : found;
+  for (const [r, c] of sol.path) {
+    const rot = sol.rots[r][c];
+    if (!rotSatisfies(grid[r][c], rot, topo)) return { r, c, rot };
+  }
+  return null; // already solved
 }
 
-export default function GameBoard() {
-  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
-  const [grid, setGrid] = useState<Grid>(() => load('easy') ?? makeGridFor('easy'));
-  const [moves, setMoves] = useState(0);
+// onReplay: open the replay viewer, offered once the board is solved
+export default function GameBoard({ onReplay }: { onReplay?: () => void }) {
+  const [{ slot: initial, custom: initialCustom, pending: initialPending }] = useState(initialGame);
+  const [slotId, setSlotId] = useState(initial.id);
+  const [createdAt, setCreatedAt] = useState(initial.createdAt);
+  const [mode, setMode] = useState<GameMode>(initial.mode);
+  const [difficulty, setDifficulty] = useState<Difficulty>(initial.difficulty);
+  const [topology, setTopology] = useState<TopologyKind>(initial.topology ?? 'square');
+  const [grid, setGrid] = useState<Grid>(initial.grid);
+  const [ends, setEnds] = useState<Ends>(initial.ends);
+  const [custom, setCustom] = useState<CustomConfig>(initialCustom);
+  const [history, setHistory] = useState<History>(initial.history);
+  const [log, setLog] = useState<Recording>(() => initial.log ?? startRecording(initial.grid)); // older saves record from now on
+  const [route, setRoute] = useState<Cell[] | undefined>(initial.route);
+  const [seed, setSeed] = useState<number | undefined>(initial.seed); // boards saved before seeds existed have none
+  const [par, setPar] = useState<number | null>(initial.par);
+  const [elapsed, setElapsed] = useState(initial.elapsedMs);
+  const [hintsUsed, setHintsUsed] = useState(initial.hintsUsed ?? 0);
+  const [visible, setVisible] = useState(!document.hidden);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [copied, setCopied] = useState<'link' | 'challenge' | null>(null);
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [dailyLog, setDailyLog] = useState<DailyLog>(loadDailyLog);
+  const [cursor, setCursor] = useState<Cell>([0, 0]); // the board's one tabbable tile
+  const [level, setLevel] = useState<LevelRef | undefined>(initial.level);
+  const [levelPack, setLevelPack] = useState<LevelPack | null>(null);
+  const [progress, setProgress] = useState<CampaignProgress>(loadProgress);
+  const [campaignError, setCampaignError] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [failed, setFailed] = useState<Pending | null>(null); // the board the worker couldn't make, for Try again
+  const generation = useRef<AbortController | null>(null);
+  const moves = history.past.length;
+  const isTodaysDaily = mode === 'path' && difficulty === 'daily' && seed === dailySeed();
+  const topo = TOPOLOGIES[topology], hex = topology === 'hex';
+
+  // consume a shared link once it's loaded so a reload resumes the saved board;
+  // a challenge link's result is checked first, and kept for this visit
+  const [linkParams] = useState(() => new URLSearchParams(window.location.search));
+  useEffect(() => {
+    if (window.location.search) window.history.replaceState(null, '', window.location.pathname);
+    let live = true;
+    linkedChallenge(linkParams).then(c => { if (live && c) setChallenge(c); });
+    return () => { live = false; };
+  }, [linkParams]);
+  const rival = challenge && challenge.seed === seed && challenge.difficulty === difficulty
+    && challenge.mode === mode && challenge.topology === topology ? challenge : null;
+
+  // connectivity is updated from the last board rather than searched afresh where it can be (see lib/pathfind)
+  const lastConnectivity = useRef<Connectivity | null>(null);
+  const connected = useMemo(() => (lastConnectivity.current = updateConnectivity(lastConnectivity.current, grid, ends.start, topo)), [grid, ends, topo]);
+  const colCount = grid[0]?.length ?? 0;
+  const endIndex = ends.end[0] * colCount + ends.end[1];
+  const solvedPath = useMemo(() => connected.reach[endIndex] ? pathIndexes(grid, ends, topo) : [], [connected, endIndex, grid, ends, topo]);
+  const onPath = useMemo(() => new Set(solvedPath), [solvedPath]);
+  const solved = useMemo(() => mode === 'net' ? isNetSolved(grid, topo) : solvedPath.length > 0, [mode, grid, topo, solvedPath]);
+  // steps from A along the path, in order (net: out from the source), for the flow animation; -1 off it.
+  // Tile views only: the canvas board colors the path at once.
+  const flow = useMemo(() => {
+    if (!solved) return null;
+    let steps: Int32Array;
+    if (mode === 'net') steps = distancesFrom(grid, ends.start, topo);
+    else {
+      steps = new Int32Array(grid.length * colCount).fill(-1);
+      solvedPath.forEach((i, k) => { steps[i] = k; });
+    }
+    const last = steps.reduce((a, b) => Math.max(a, b), 0);
+    return { steps, ms: Math.min(FLOW_STEP_MS, FLOW_MAX_MS / Math.max(1, last)) };
+  }, [solved, mode, grid, ends, topo, colCount, solvedPath]);
+  const openTiles = useMemo(() => grid.flat().filter(t => t.type !== 'block').length, [grid]);
+
+  // read out by the live region whenever the connected count changes, and on the solve
+  const announcement = solved
+    ? `Solved in ${moves} moves.`
+    : `${connected.size} of ${openTiles} tiles connected to ${mode === 'net' ? 'the source' : 'A'}.`;
+  const useCanvas = !hex && grid.length * colCount > CANVAS_CELLS;
+
+  // every change is written back to this board's slot, and to the game log once it's been played
+  useEffect(() => {
+    const now = Date.now();
+    putSlot({
+      v: SAVE_VERSION, id: slotId, mode, difficulty, grid, ends, history, seed, par,
+      moves: history.past.length, elapsedMs: elapsed, hintsUsed, solved, createdAt, updatedAt: now, level, topology, log, route,
+    });
+    setLastPlayed({ mode, difficulty, id: slotId, topology });
+    if (history.past.length || solved) {
+      logGame({
+        id: slotId, mode, difficulty, topology, seed, moves: history.past.length, par, timeMs: elapsed, hintsUsed, solved, playedAt: now,
+      });
+    }
+  }, [slotId, mode, difficulty, topology, grid, ends, history, log, route, seed, par, elapsed, hintsUsed, solved, createdAt, level]);
 
-  useEffect(() => { save(difficulty, grid); }, [grid, difficulty]);
+  // other unfinished boards on this level, for the Continue menu
+  const others = useMemo(
+    () => listSlots(mode, difficulty, topology).filter(s => !s.solved && s.id !== slotId),
+    [mode, difficulty, topology, slotId],
+  );
 
-  const connected = useMemo(() => connectedFromStart(grid), [grid]);
-  const solvedPath = useMemo(() => computeSolvedPath(grid), [grid]);
-  const solved = solvedPath.size > 0;
+  // play time: one tick per second until solved, paused while the page is hidden
+  useEffect(() => {
+    const onVis = () => setVisible(!document.hidden);
+    document.addEventListener('visibilitychange', onVis);
+    return () => document.removeEventListener('visibilitychange', onVis);
+  }, []);
+  // lastTick: when the clock last ticked (or restarted), so the recording can time turns between ticks
+  const lastTick = useRef(0);
+  useEffect(() => {
+    if (solved || !visible) return;
+    lastTick.current = Date.now();
+    const id = setInterval(() => { lastTick.current = Date.now(); setElapsed(e => e + 1000); }, 1000);
+    return () => clearInterval(id);
+  }, [solved, slotId, visible]);
+  const playClock = () => elapsed + (solved ? 0 : Math.min(999, Date.now() - lastTick.current));
+
+  // daily bookkeeping: note when today's board is opened, and the first solve
+  useEffect(() => { if (isTodaysDaily) setDailyLog(startDaily()); }, [isTodaysDaily]);
+  useEffect(() => { if (isTodaysDaily && solved) setDailyLog(finishDaily(moves, elapsed)); }, [isTodaysDaily, solved, moves, elapsed]);
+  const streak = useMemo(() => streaks(dailyLog), [dailyLog]);
+  const todaysResult = isTodaysDaily ? dailyLog[dateKey()]?.solved : undefined;
+
+  // campaign bookkeeping: keep the best result per level, then move on to the next level
+  const packId = level?.pack, levelIndex = level?.index;
+  useEffect(() => {
+    if (!packId) return;
+    let live = true;
+    loadPack(packId).then(p => { if (live) setLevelPack(p); });
+    return () => { live = false; };
+  }, [packId]);
+  useEffect(() => {
+    if (solved && packId !== undefined && levelIndex !== undefined) setProgress(recordLevel({ pack: packId, index: levelIndex }, moves, elapsed, par));
+  }, [solved, packId, levelIndex, moves, elapsed, par]);
+  const next = solved && levelPack && levelPack.id === packId && levelIndex !== undefined ? nextLevel(levelPack, levelIndex) : null;
+  const nextIndex = next?.index;
 
   // ===== Fit exactly: compute per-tile size including GAP, and dynamic stroke =====
   const hudRef = useRef<HTMLDivElement>(null);
@@ -109,8 +311,9 @@ export default function GameBoard() {
       const innerW = Math.floor(containerRef.current?.clientWidth ?? vw);
       const hudH = Math.ceil(hudRef.current?.getBoundingClientRect().height ?? 0);
 
-      // Dynamic spacing for denser boards
-      const GAP = (rows >= 7 || cols >= 7) ? 4 : (rows >= 6 || cols >= 6) ? 5 : 6;
+      // Dynamic spacing for denser boards; canvas boards are packed tight
+      const canvas = topology === 'square' && rows * cols > CANVAS_CELLS;
+      const GAP = canvas ? 1 : (rows >= 7 || cols >= 7) ? 4 : (rows >= 6 || cols >= 6) ? 5 : 6;
       setGapPx(GAP);
 
       const SIDE_BUFFER = 8;     // keep off the edges inside the container
@@ -119,10 +322,21 @@ export default function GameBoard() {
       const maxW = innerW - SIDE_BUFFER;
       const maxH = vh - hudH - VERT_BUFFER;
 
+      // hex tiles touch: the gap is drawn inside each tile (see HexTile)
+      if (topology === 'hex') {
+        const size = Math.floor(Math.max(20, hexFit(rows, cols, maxW, maxH)));
+        const board = hexBoardSize(rows, cols, size);
+        setTileSize(size);
+        setBoardW(Math.ceil(board.width));
+        setBoardH(Math.ceil(board.height));
+        setStrokePx(Math.max(3, Math.min(8, Math.round(size * 0.14))));
+        return;
+      }
+
       // per-tile size that fits both width and height after subtracting gaps
       const sizeW = (maxW - GAP * (cols - 1)) / cols;
       const sizeH = (maxH - GAP * (rows - 1)) / rows;
-      const size = Math.floor(Math.max(20, Math.min(sizeW, sizeH))); // raise the minimum a bit
+      const size = Math.floor(Math.max(canvas ? 6 : 20, Math.min(sizeW, sizeH))); // raise the minimum a bit
 
       setTileSize(size);
       setBoardW(size * cols + GAP * (cols - 1));
@@ -141,110 +355,463 @@ export default function GameBoard() {
       window.removeEventListener('resize', update);
       window.removeEventListener('orientationchange', update);
     };
-  }, [grid.length, grid[0]?.length]);
-
-  function rotateAt(r: number, c: number) {
-    setGrid(prev => {
-      const t = prev[r][c];
-      if (t.type === 'block') return prev; // can't rotate blocks
-      const next = prev.map(row => row.slice());
-      next[r][c] = { ...t, rot: ((t.rot + 1) % 4) as 0|1|2|3 };
-      return next;
-    });
-    setMoves(m => m + 1);
+  }, [grid.length, grid[0]?.length, difficulty, topology]); // difficulty: the custom form changes the HUD height
+
+  // turn: 1 = clockwise, -1 = counter-clockwise; a full spin is 4 turns on square boards, 6 on hex
+  const turns = topo.sides.length;
+  const rotateAt = (r: number, c: number, turn: 1 | -1 = 1) => turnTo(r, c, ((grid[r][c].rot + turns + turn) % turns) as Rot);
+
+  function turnTo(r: number, c: number, to: Rot) {
+    const t = grid[r][c];
+    if (t.type === 'block' || t.locked || t.rot === to) return; // blocks don't turn; locked tiles are pinned
+    setGrid(setRot(grid, r, c, to));
+    setHistory(record(history, { r, c, from: t.rot, to }));
+    setLog(addStep(log, playClock(), r, c, to));
+    setHint(null);
+  }
+
+  // Locking isn't a move: it's kept on the board (and saved) but not in undo history.
+  function toggleLock(r: number, c: number) {
+    const t = grid[r][c];
+    if (t.type === 'block') return;
+    const next = grid.map(row => row.slice());
+    next[r][c] = { ...t, locked: !t.locked };
+    setGrid(next);
   }
 
-  function newBoard(d: Difficulty) {
-    const g = makeGridFor(d);
-    setGrid(g); setMoves(0); setDifficulty(d); save(d, g);
+  function onGesture(r: number, c: number, g: Gesture) {
+    setCursor([r, c]);
+    if (g.kind === 'lock') toggleLock(r, c);
+    else if (g.kind === 'swipe' && !hex) turnTo(r, c, rotFacing(g.dir));
+    else rotateAt(r, c, g.kind === 'swipe' ? 1 : g.turn); // swipes point N/E/S/W only: on hex boards one is a tap
   }
 
-  const rows = grid.length;
-  const cols = grid[0]?.length ?? 0;
+  // undo and redo are turns too, as far as the recording goes; like taps, they leave locked tiles alone
+  const stepMove = (dir: 'undo' | 'redo') => dir === 'undo' ? history.past[history.past.length - 1] : history.future[0];
+  const canStep = (dir: 'undo' | 'redo') => { const m = stepMove(dir); return !!m && !grid[m.r][m.c].locked; };
+  function step(dir: 'undo' | 'redo') {
+    const m = stepMove(dir);
+    const res = canStep(dir) && (dir === 'undo' ? undo(grid, history) : redo(grid, history));
+    if (!res) return;
+    setGrid(res.grid); setHistory(res.history); setHint(null);
+    setLog(addStep(log, playClock(), m.r, m.c, dir === 'undo' ? m.from : m.to));
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo.
+  // The listener is added once and calls through stepRef, which always holds this render's step.
+  const stepRef = useRef(step);
+  useEffect(() => { stepRef.current = step; });
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const el = e.target as HTMLElement | null;
+      if (el?.isContentEditable || el?.closest?.('input, textarea, select')) return;
+      e.preventDefault();
+      stepRef.current(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  // ----- keyboard: arrows move the focused tile, R / Shift+R rotate it, L locks it -----
+  const tileRefs = useRef(new Map<string, HTMLButtonElement>());
+  const rowCount = grid.length;
+  const [cr, cc] = [Math.min(cursor[0], rowCount - 1), Math.min(cursor[1], colCount - 1)]; // boards change size
+
+  function onBoardKey(e: ReactKeyboardEvent) {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const moveTo: Record<string, Cell> = {
+      ArrowUp: [cr - 1, cc], ArrowDown: [cr + 1, cc], ArrowLeft: [cr, cc - 1], ArrowRight: [cr, cc + 1],
+      Home: [cr, 0], End: [cr, colCount - 1],
+    };
+    if (e.key.toLowerCase() === 'r' || (useCanvas && (e.key === 'Enter' || e.key === ' '))) {
+      e.preventDefault(); // tile buttons handle Enter/Space themselves; the canvas has no buttons
+      rotateAt(cr, cc, e.shiftKey ? -1 : 1);
+    } else if (e.key.toLowerCase() === 'l') {
+      e.preventDefault();
+      toggleLock(cr, cc);
+    } else if (moveTo[e.key]) {
+      e.preventDefault();
+      const [r, c] = moveTo[e.key];
+      if (r < 0 || c < 0 || r >= rowCount || c >= colCount) return;
+      setCursor([r, c]);
+      if (!useCanvas) tileRefs.current.get(`${r},${c}`)?.focus();
+    }
+  }
+
+  const openSlot = useCallback((slot: SaveSlot) => {
+    setSlotId(slot.id); setCreatedAt(slot.createdAt); setMode(slot.mode); setDifficulty(slot.difficulty); setTopology(slot.topology ?? 'square');
+    setGrid(slot.grid); setEnds(slot.ends); setHistory(slot.history); setSeed(slot.seed); setPar(slot.par);
+    setLog(slot.log ?? startRecording(slot.grid)); setRoute(slot.route);
+    setElapsed(slot.elapsedMs); setHintsUsed(slot.hintsUsed ?? 0); setLevel(slot.level); setHint(null);
+    setCampaignError(false); setFailed(null);
+  }, []);
+
+  // An unfinished attempt at the level is picked up again; otherwise it starts fresh.
+  const openLevel = useCallback(async (ref: LevelRef) => {
+    const pack = await loadPack(ref.pack);
+    if (!pack?.levels[ref.index]) return setCampaignError(true);
+    const saved = listSlots('path', 'campaign').find(s => !s.solved && s.level?.pack === ref.pack && s.level.index === ref.index);
+    openSlot(saved ?? levelGame(pack, ref.index));
+  }, [openSlot]);
+
+  useEffect(() => {
+    if (!packId || nextIndex === undefined) return;
+    const id = setTimeout(() => openLevel({ pack: packId, index: nextIndex }), ADVANCE_MS);
+    return () => clearTimeout(id);
+  }, [packId, nextIndex, openLevel]);
+
+  async function startCampaign() {
+    const [first] = await loadManifest();
+    const pack = first && await loadPack(first.id);
+    if (!pack) return setCampaignError(true);
+    openLevel(resumeLevel(pack, progress));
+  }
+
+  // Boards are made in a worker so big ones don't freeze the page; asking for another cancels the last.
+  const generate = useCallback(async ({ req, difficulty: d }: Pending) => {
+    generation.current?.abort();
+    const ctl = new AbortController();
+    generation.current = ctl;
+    setGenerating(true); setFailed(null);
+    try {
+      openSlot(freshGame(await generateBoard(req, ctl.signal), req, d));
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) setFailed({ req, difficulty: d });
+    } finally {
+      if (generation.current === ctl) { generation.current = null; setGenerating(false); }
+    }
+  }, [openSlot]);
+
+  const cancelGenerate = () => generation.current?.abort();
+
+  useEffect(() => {
+    if (initialPending) generate(initialPending);
+    return () => generation.current?.abort();
+  }, [initialPending, generate]);
+
+  // A new board gets its own slot; whatever was in progress stays listed under Continue.
+  function newBoard(d: Generated, cust = custom, m = mode, t = topology) {
+    const today = d === 'daily' ? listSlots(m, d).find(s => s.seed === dailySeed()) : null;
+    if (today) return openSlot(today);
+    const seed = d === 'daily' ? dailySeed() : newSeed();
+    generate({ req: { ...configFor(d, cust, m), mode: m, seed, topology: t }, difficulty: d });
+  }
+
+  // Changing level, mode or board shape resumes the latest unfinished board there before making a new one.
+  function switchTo(d: Difficulty, m = mode, t = topology) {
+    if (generatedOnly(d, m, t)) d = 'easy';
+    if (d === 'campaign') {
+      const open = latestOpen('path', d);
+      if (open) openSlot(open); else startCampaign();
+      return;
+    }
+    const open = d === 'daily' ? null : latestOpen(m, d, t);
+    if (open) openSlot(open); else newBoard(d, custom, m, t);
+  }
+
+  function createCustom(cfg: CustomConfig) {
+    setCustom(cfg); saveCustom(cfg);
+    newBoard('custom', cfg);
+  }
+
+  // Share this board, or (once solved) challenge someone to beat this result on it
+  async function copyLink(what: 'link' | 'challenge') {
+    if (seed === undefined) return;
+    const query = boardQuery(difficulty, mode, topology, seed, custom);
+    const url = linkTo(what === 'challenge' ? await challengeQuery(query, { moves, timeMs: elapsed }) : query);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      window.prompt('Copy this link', url); // clipboard API blocked (e.g. insecure context)
+    }
+    setCopied(what);
+    setTimeout(() => setCopied(null), 1500);
+  }
 
   return (
     <div className="w-full">
       {/* Status line under header */}
       {solved && (
         <div className="mb-2 text-primary/90 text-sm">
-          Arianna, you're awesome and you finished the game. Start a new one! Love, Nathan
+          {par !== null && (
+            <span className="mr-2 text-accent" aria-label={`${starsFor(moves, par)} of 3 stars`}>{starText(starsFor(moves, par))}</span>
+          )}
+          Solved in {moves} moves{par !== null && <> (par {par})</>}
+          {todaysResult ? <>, {formatTime(todaysResult.timeMs)}. Come back tomorrow!</>
+            : level ? (next ? '. Next level coming up…' : '. That was the last level in this pack!')
+            : '. Start a new one!'}
+          {seed !== undefined && difficulty !== 'campaign' && canSign() && (
+            <button onClick={() => copyLink('challenge')} className="ml-2 underline underline-offset-2 hover:text-primary">
+              {copied === 'challenge' ? 'Challenge link copied!' : 'Challenge a friend'}
+            </button>
+          )}
+          {onReplay && (
+            <button onClick={onReplay} className="ml-2 underline underline-offset-2 hover:text-primary">Watch replay</button>
+          )}
+        </div>
+      )}
+      {rival && (
+        <div className="mb-2 text-sm text-white/80" role="status">
+          {solved ? <ChallengeResult mine={{ moves, timeMs: elapsed }} theirs={rival} />
+            : <>Challenge: beat <b>{rival.moves}</b> moves in <b>{formatTime(rival.timeMs)}</b>.</>}
+        </div>
+      )}
+      {campaignError && (
+        <div className="mb-2 text-accent/90 text-sm">
+          Couldn't load the level packs. Check your connection and try again.
+        </div>
+      )}
+      {failed && (
+        <div className="mb-2 text-accent/90 text-sm">
+          Couldn't make a new board.{' '}
+          <button onClick={() => generate(failed)} className="underline underline-offset-2 hover:text-accent">Try again</button>
+        </div>
+      )}
+      {hint === 'unsolvable' && (
+        <div className="mb-2 text-accent/90 text-sm">
+          This board has no solution. Try a new one.
+        </div>
+      )}
+      {hint === 'capped' && (
+        <div className="mb-2 text-accent/90 text-sm">
+          This board is too open for the hint search. It can still be solved.
         </div>
       )}
 
       {/* Controls/HUD */}
-      <div ref={hudRef} className="flex items-center justify-between mb-2 gap-2">
-        <div className="flex items-center gap-2">
-          <span className="px-2.5 py-1 rounded-full bg-white/5 text-white/80 text-sm">
-            Moves: <b>{moves}</b>
-          </span>
-        </div>
+      <div ref={hudRef}>
+        <div className="flex flex-wrap items-center justify-between mb-2 gap-2">
+          <div className="flex items-center gap-2">
+            <span className="px-2.5 py-1 rounded-full bg-white/5 text-white/80 text-sm">
+              Moves: <b>{moves}</b>
+              {par !== null && <span className="text-white/50"> / par {par}</span>}
+            </span>
+            <span className="px-2.5 py-1 rounded-full bg-white/5 text-white/80 text-sm tabular-nums" title={visible ? 'Time' : 'Paused'}>
+              {formatTime(elapsed)}
+            </span>
+            {difficulty === 'daily' && (
+              <span className="px-2.5 py-1 rounded-full bg-white/5 text-white/80 text-sm" title="Daily streak (best)">
+                Streak: <b>{streak.current}</b> <span className="text-white/50">/ {streak.best}</span>
+              </span>
+            )}
+            {seed !== undefined && (
+              <button
+                onClick={() => copyLink('link')}
+                title="Copy link"
+                aria-label={`Copy link to puzzle ${seedToCode(seed)}`}
+                className="px-2.5 py-1 rounded-full bg-white/5 hover:bg-white/10 text-white/60 text-xs font-mono"
+              >
+                {copied === 'link' ? 'Copied!' : `#${seedToCode(seed)}`}
+              </button>
+            )}
+            <button
+              onClick={() => {
+                const h = findHint(grid, ends, mode, topo, route);
+                setHint(h);
+                if (isTileHint(h)) setHintsUsed(n => n + 1);
+              }}
+              disabled={solved}
+              className="px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm disabled:opacity-40"
+            >
+              Hint
+            </button>
+            <button
+              onClick={() => step('undo')}
+              disabled={!canStep('undo')}
+              aria-label="Undo"
+              title="Undo (Ctrl+Z)"
+              className="px-2.5 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm disabled:opacity-40"
+            >
+              ↶
+            </button>
+            <button
+              onClick={() => step('redo')}
+              disabled={!canStep('redo')}
+              aria-label="Redo"
+              title="Redo (Ctrl+Shift+Z)"
+              className="px-2.5 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm disabled:opacity-40"
+            >
+              ↷
+            </button>
+          </div>
 
-        <div className="flex items-center gap-2">
-          <label htmlFor="diff" className="text-white/60 text-sm">Level</label>
-          <select
-            id="diff"
-            className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
-            value={difficulty}
-            onChange={(e) => newBoard(e.target.value as Difficulty)}
-          >
-            <option value="easy">Easy</option>
-            <option value="medium">Medium</option>
-            <option value="hard">Hard</option>
-          </select>
-
-          <button
-            onClick={() => newBoard(difficulty)}
-            className="px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm"
-          >
-            New board
-          </button>
+          <div className="flex items-center gap-2">
+            <label htmlFor="mode" className="sr-only">Mode</label>
+            <select
+              id="mode"
+              className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+              value={mode}
+              onChange={(e) => switchTo(difficulty, e.target.value as GameMode)}
+            >
+              <option value="path">A→B</option>
+              <option value="net">Net</option>
+            </select>
+
+            <label htmlFor="shape" className="sr-only">Board shape</label>
+            <select
+              id="shape"
+              className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+              value={topology}
+              onChange={(e) => switchTo(difficulty, mode, e.target.value as TopologyKind)}
+            >
+              <option value="square">Square</option>
+              <option value="hex">Hex</option>
+            </select>
+
+            <label htmlFor="diff" className="text-white/60 text-sm">Level</label>
+            <select
+              id="diff"
+              className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+              value={difficulty}
+              onChange={(e) => switchTo(e.target.value as Difficulty)}
+            >
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+              {!generatedOnly('daily', mode, topology) && <option value="daily">Daily</option>}
+              <option value="custom">Custom</option>
+              {!generatedOnly('campaign', mode, topology) && <option value="campaign">Campaign</option>}
+            </select>
+
+            <button
+              onClick={() => { if (difficulty !== 'campaign') newBoard(difficulty); }}
+              disabled={generating || difficulty === 'daily' || difficulty === 'campaign'}
+              className="px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm disabled:opacity-40"
+            >
+              New board
+            </button>
+
+            {others.length > 0 && (
+              <select
+                aria-label="Continue a saved board"
+                className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+                value=""
+                onChange={(e) => { const s = getSlot(mode, difficulty, e.target.value, topology); if (s) openSlot(s); }}
+              >
+                <option value="" disabled>Continue…</option>
+                {others.map(s => (
+                  <option key={s.id} value={s.id}>
+                    {s.level ? `Level ${s.level.index + 1}` : s.seed !== undefined ? `#${seedToCode(s.seed)}` : 'Board'} · {s.moves} moves · {formatTime(s.elapsedMs)}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
         </div>
+        {difficulty === 'custom' && <CustomBoardForm value={custom} showEnds={mode === 'path'} onCreate={createCustom} />}
+        {difficulty === 'campaign' && <CampaignPanel current={level} progress={progress} onOpen={openLevel} />}
       </div>
 
       {/* Board: left/top aligned; exact pixel width/height to include gaps */}
       <div ref={containerRef} className="w-full">
         <div
           style={{ width: boardW, height: boardH }}
-          className="overflow-hidden"
+          className="relative overflow-hidden"
+          aria-busy={generating || undefined}
         >
-          <div
-            className="grid"
-            style={{
-              gridTemplateColumns: `repeat(${cols}, ${tileSize}px)`,
-              gridAutoRows: `${tileSize}px`,
-              gap: `${gapPx}px`,
-            }}
-          >
-            {grid.map((row, r) =>
-              row.map((tile, c) => {
-                const key = `${r},${c}`;
-                const highlighted = connected.has(key);
-                const onSolvedPath = solved && solvedPath.has(key);
-                const isStart = r === 0 && c === 0;
-                const isEnd   = r === rows - 1 && c === cols - 1;
-
-                return (
-                  <div key={key} style={{ width: tileSize, height: tileSize }}>
-                    <TileView
-                      tile={tile}
-                      highlighted={highlighted}
-                      pathOn={onSolvedPath}
-                      isStart={isStart}
-                      isEnd={isEnd}
-                      strokePx={strokePx}  // <-- NEW: thinner lines on dense boards
-                      onRotate={() => rotateAt(r, c)}
-                    />
-                  </div>
-                );
-              })
-            )}
-          </div>
+          {useCanvas ? (
+            <BoardCanvas
+              grid={grid}
+              tileSize={tileSize}
+              gap={gapPx}
+              strokePx={strokePx}
+              reach={connected.reach}
+              onPath={(i) => solved && (mode === 'net' || onPath.has(i))}
+              ends={mode === 'path' ? ends : undefined}
+              hint={isTileHint(hint) ? hint : undefined}
+              cursor={[cr, cc]}
+              label={mode === 'net' ? 'Net board' : 'Board'}
+              describedBy="board-help"
+              onGesture={onGesture}
+              onKeyDown={onBoardKey}
+            />
+          ) : (
+            <div
+              role="grid"
+              aria-label={mode === 'net' ? 'Net board' : 'Board'}
+              aria-describedby="board-help"
+              onKeyDown={onBoardKey}
+              className={hex ? "relative w-full h-full" : "grid"}
+              style={hex ? undefined : {
+                gridTemplateColumns: `repeat(${colCount}, ${tileSize}px)`,
+                gridAutoRows: `${tileSize}px`,
+                gap: `${gapPx}px`,
+              }}
+            >
+              {grid.map((row, r) => (
+                <div key={r} role="row" className="contents">
+                  {row.map((tile, c) => {
+                    const key = `${r},${c}`;
+                    const i = r * colCount + c;
+                    const highlighted = connected.reach[i] === 1;
+                    const onSolvedPath = solved && (mode === 'net' || onPath.has(i));
+                    const isStart = mode === 'path' && r === ends.start[0] && c === ends.start[1];
+                    const isEnd   = mode === 'path' && r === ends.end[0] && c === ends.end[1];
+                    const hintRot = isTileHint(hint) && hint.r === r && hint.c === c ? hint.rot : undefined;
+                    const flowDelay = flow && flow.steps[i] >= 0 ? Math.round(flow.steps[i] * flow.ms) : undefined;
+                    const tileProps = {
+                      ref: (el: HTMLButtonElement | null) => { if (el) tileRefs.current.set(key, el); else tileRefs.current.delete(key); },
+                      tabIndex: r === cr && c === cc ? 0 : -1,
+                      onFocus: () => setCursor([r, c]),
+                      tile, highlighted, pathOn: onSolvedPath, isStart, isEnd, strokePx, hintRot, flowDelay,
+                      onGesture: (g: Gesture) => onGesture(r, c, g),
+                    };
+                    return hex ? (
+                      <div key={key} role="gridcell" className="absolute"
+                        style={{ ...hexTileAt(r, c, tileSize), width: tileSize * HEX_RATIO, height: tileSize }}>
+                        <HexTile {...tileProps} />
+                      </div>
+                    ) : (
+                      <div key={key} role="gridcell" style={{ width: tileSize, height: tileSize }}>
+                        <TileView {...tileProps} />
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+          {generating && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/60 text-white/80 text-sm">
+              Generating board…
+              <button
+                onClick={cancelGenerate}
+                className="px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
-      <p className="mt-3 text-white/60 text-sm">
-        Rotate pieces to connect <span className="text-primary font-medium">A</span> to{' '}
-        <span className="text-accent font-medium">B</span>. Some tiles are <em>blocked</em> to force a maze path.
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+      {useCanvas && (
+        <div aria-live="polite" className="sr-only">
+          {`Row ${cr + 1}, column ${cc + 1}: ${tileLabel({
+            tile: grid[cr][cc], highlighted: connected.reach[cr * colCount + cc] === 1, topo,
+            isStart: mode === 'path' && cr === ends.start[0] && cc === ends.start[1],
+            isEnd: mode === 'path' && cr === ends.end[0] && cc === ends.end[1],
+            hintRot: isTileHint(hint) && hint.r === cr && hint.c === cc ? hint.rot : undefined,
+          })}`}
+        </div>
+      )}
+
+      {mode === 'net' ? (
+        <p id="board-help" className="mt-3 text-white/60 text-sm">
+          Rotate pieces so every tile joins one network, with no pipe left open.
+          <span className="sr-only"> Arrow keys move between tiles; R rotates clockwise, Shift+R counter-clockwise, L locks a tile.</span>
+        </p>
+      ) : (
+        <p id="board-help" className="mt-3 text-white/60 text-sm">
+          Rotate pieces to connect <span className="text-primary font-medium">A</span> to{' '}
+          <span className="text-accent font-medium">B</span>. Some tiles are <em>blocked</em> to force a maze path.
+          <span className="sr-only"> Arrow keys move between tiles; R rotates clockwise, Shift+R counter-clockwise, L locks a tile.</span>
+        </p>
+      )}
+      <p className="mt-1 text-white/40 text-xs">
+        Tap to turn a tile; right-click or two-finger tap turns it back; swipe to point it (on hex boards, a swipe is a tap); long-press to lock it.
       </p>
     </div>
   );
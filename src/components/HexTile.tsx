@@ -0,0 +1,125 @@
+// src/components/HexTile.tsx
+// TileView for hex boards: the same button and gestures, drawn as a pointy-top hexagon.
+// Where each tile sits is GameBoard's job (see lib/hexLayout).
+import type { Ref } from 'react';
+import type { Tile, TileType, Rot } from '../lib/pathfind';
+import type { Gesture } from '../lib/gestures';
+import { HEX } from '../lib/topology';
+import { HEX_RATIO, hexSideAngle } from '../lib/hexLayout';
+import { useGestures } from '../lib/useGestures';
+import { tileLabel } from '../lib/describe';
+import { useSpin } from '../lib/useSpin';
+import StateMarker from './StateMarker';
+import PipeLines, { type Segment } from './PipeLines';
+
+type Props = {
+  tile: Tile;
+  onGesture: (g: Gesture) => void;
+  highlighted?: boolean;
+  pathOn?: boolean;
+  isStart?: boolean;
+  isEnd?: boolean;
+  strokePx?: number;
+  hintRot?: Rot;
+  flowDelay?: number;
+  ref?: Ref<HTMLButtonElement>;
+  tabIndex?: number;
+  onFocus?: () => void;
+};
+
+// viewBox: 64 units tall, corner to corner; every point below is in these units
+const W = 64 * HEX_RATIO, CX = W / 2, CY = 32, APOTHEM = W / 2;
+const corners = (scale: number) => [-90, -30, 30, 90, 150, 210]
+  .map(a => `${CX + 32 * scale * Math.cos((a * Math.PI) / 180)},${CY + 32 * scale * Math.sin((a * Math.PI) / 180)}`)
+  .join(' ');
+const OUTLINE = corners(0.94);
+const CLIP = 'polygon(50% 0, 100% 25%, 100% 75%, 50% 100%, 0 75%, 0 25%)'; // hit-testing follows the hexagon
+
+// Arms at rotation 0, from the centre out to each open side; an end is a stub like the square one
+function arms(type: TileType): Segment[] {
+  const mask = HEX.masks[type]?.[0] ?? 0;
+  const reach = type === 'end' ? APOTHEM * 0.6 : APOTHEM * 0.96;
+  return HEX.sides.flatMap((_, s) => {
+    if (!(mask & (1 << s))) return [];
+    const a = (hexSideAngle(s) * Math.PI) / 180;
+    return [[CX, CY, CX + reach * Math.cos(a), CY + reach * Math.sin(a)] as const];
+  });
+}
+
+export default function HexTile(props: Props) {
+  const { tile, onGesture, highlighted, pathOn, isStart, isEnd, strokePx, hintRot, flowDelay, ref, tabIndex, onFocus } = props;
+  const deg = useSpin(tile.rot, 6) * 60;
+  const isBlock = tile.type === 'block';
+  const gestures = useGestures(onGesture, { enabled: () => !isBlock });
+  const stroke = pathOn ? 'var(--zl-primary)' : 'var(--zl-line)';
+  const sw = strokePx ?? 8;
+  const segments = arms(tile.type);
+
+  const edge = hintRot !== undefined ? "stroke-accent"
+    : isStart ? "stroke-primary/70"
+    : isEnd ? "stroke-accent/70"
+    : highlighted && !isBlock ? "stroke-primary/60"
+    : tile.locked ? "stroke-white/30" : "stroke-white/5";
+
+  return (
+    <button
+      ref={ref}
+      tabIndex={tabIndex}
+      onFocus={onFocus}
+      aria-label={tileLabel({ ...props, topo: HEX })}
+      {...gestures}
+      onClick={(e) => { if (!isBlock && e.detail === 0) onGesture({ kind: 'rotate', turn: 1 }); }}
+      onKeyDown={(e) => {
+        if (isBlock) return;
+        if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onGesture({ kind: 'rotate', turn: 1 }); }
+      }}
+      aria-disabled={isBlock || undefined}
+      style={{ clipPath: CLIP }}
+      className={[
+        "group relative w-full h-full select-none touch-none outline-none",
+        "motion-ok:transition-transform motion-ok:duration-150",
+        isBlock ? "cursor-not-allowed" : tile.locked ? "" : "motion-ok:active:scale-95",
+      ].join(" ")}
+    >
+      <svg viewBox={`0 0 ${W} 64`} className="absolute inset-0 w-full h-full" aria-hidden>
+        <polygon
+          points={OUTLINE}
+          strokeWidth={2}
+          className={[
+            isBlock ? "fill-block" : tile.locked ? "fill-tile-locked" : "fill-tile",
+            edge,
+            "group-focus-visible:stroke-white/80",
+          ].join(" ")}
+        />
+        {isBlock ? (
+          <g opacity={0.4}>
+            <line x1={CX - 10} y1={CY - 10} x2={CX + 10} y2={CY + 10} stroke="white" strokeWidth={Math.max(2, sw - 2)} strokeLinecap="round" />
+            <line x1={CX + 10} y1={CY - 10} x2={CX - 10} y2={CY + 10} stroke="white" strokeWidth={Math.max(2, sw - 2)} strokeLinecap="round" />
+          </g>
+        ) : (
+          <PipeLines
+            segments={segments} cx={CX} cy={CY} deg={deg} stroke={stroke} sw={sw}
+            className={`motion-ok:transition-transform motion-ok:duration-200 motion-ok:ease-out ${flowDelay !== undefined ? 'motion-ok:animate-flow' : ''}`}
+            flowDelay={flowDelay}
+          />
+        )}
+        {hintRot !== undefined && !isBlock && (
+          <g opacity={0.8}>
+            <PipeLines segments={segments} cx={CX} cy={CY} deg={hintRot * 60} stroke="var(--zl-accent)" sw={Math.max(2, sw / 2)} dash="4 6" />
+          </g>
+        )}
+        {tile.locked && (
+          <g transform={`translate(${CX - 5} 8) scale(0.6)`} opacity={0.7}>
+            <rect x="3" y="7" width="10" height="8" rx="1.5" fill="white" />
+            <path d="M5 7V5a3 3 0 0 1 6 0v2" fill="none" stroke="white" strokeWidth="1.8" />
+          </g>
+        )}
+      </svg>
+
+      {/* A / B badges */}
+      {isStart && <span className="absolute left-1/2 top-[18%] -translate-x-1/2 text-[10px] px-1 rounded bg-primary/20 text-primary">A</span>}
+      {isEnd &&   <span className="absolute left-1/2 bottom-[18%] -translate-x-1/2 text-[10px] px-1 rounded bg-accent/20 text-accent">B</span>}
+      {!isBlock && <StateMarker solved={pathOn} connected={highlighted} className="absolute left-[22%] bottom-[24%] w-2 h-2" />}
+    </button>
+  );
+}
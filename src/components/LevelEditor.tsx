@@ -0,0 +1,194 @@
+// src/components/LevelEditor.tsx
+import { useEffect, useMemo, useRef, useState } from 'react';
+import TileView from './Tile';
+
+import type { Grid, TileType, Rot } from '../lib/pathfind';
+import { connectedFromStart, isConnectedStartToEnd, solveRotations, countSolutions, computePar, pathCells, scrambleGrid } from '../lib/pathfind';
+import type { EditorDraft } from '../lib/level';
+import { loadDraft, saveDraft, blankDraft, makeLevel, parseLevel, levelToJson, solvedGrid } from '../lib/level';
+import type { Gesture } from '../lib/gestures';
+import { rotFacing } from '../lib/gestures';
+import { MAX_SIDE, normalizeCustom } from '../lib/custom';
+import { downloadText } from '../lib/file';
+
+// Paint a tile type, turn tiles into their solved orientation, or move A / B
+type Tool = TileType | 'turn' | 'A' | 'B';
+const TOOLS: [Tool, string][] = [
+  ['turn', 'Turn'], ['end', 'End'], ['straight', 'Straight'], ['corner', 'Corner'], ['tee', 'Tee'], ['cross', 'Cross'],
+  ['block', 'Block'], ['A', 'A'], ['B', 'B'],
+];
+
+const btnCls = "px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm disabled:opacity-40";
+const inputCls = "bg-white/10 text-white/90 border border-white/10 rounded-lg px-1.5 py-0.5 text-sm";
+const MAX_PATHS = 10; // stop counting distinct paths here
+
+// Keep what fits of the old board when the size changes
+function resize(d: EditorDraft, rows: number, cols: number): EditorDraft {
+  const fit = normalizeCustom({ rows, cols, blockFraction: 0, ends: d.ends });
+  const grid: Grid = Array.from({ length: fit.rows }, (_, r) =>
+    Array.from({ length: fit.cols }, (_, c) => d.grid[r]?.[c] ?? { type: 'block', rot: 0 }));
+  return { ...d, grid, ends: fit.ends, start: null };
+}
+
+export default function LevelEditor() {
+  const [draft, setDraft] = useState<EditorDraft>(loadDraft);
+  const [tool, setTool] = useState<Tool>('turn');
+  const [preview, setPreview] = useState(false); // show the scrambled board instead of the drawing
+  const [message, setMessage] = useState<string | null>(null);
+  const [size, setSize] = useState({ rows: draft.grid.length, cols: draft.grid[0].length });
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => saveDraft(draft), [draft]);
+
+  const { grid, ends, start } = draft;
+  const shown = preview && start ? start : grid;
+  const connected = useMemo(() => connectedFromStart(shown, ends.start), [shown, ends]);
+  const par = useMemo(() => start ? computePar(start, ends, undefined, pathCells(grid, ends)) : null, [start, ends, grid]);
+  const rows = grid.length, cols = grid[0].length;
+  const strokePx = cols > 8 ? 5 : 7;
+
+  // Any change to the drawing throws away the scramble made from it
+  const edit = (next: Partial<EditorDraft>) => { setDraft({ ...draft, start: null, ...next }); setPreview(false); setMessage(null); };
+
+  function setTile(r: number, c: number, type: TileType, rot: Rot) {
+    const next = grid.map(row => row.slice());
+    next[r][c] = { type, rot };
+    edit({ grid: next });
+  }
+
+  function onGesture(r: number, c: number, g: Gesture) {
+    if (preview || g.kind === 'lock') return;
+    const t = grid[r][c];
+    if (g.kind === 'swipe') return setTile(r, c, t.type, rotFacing(g.dir));
+    if (tool === 'turn' || g.turn === -1) return setTile(r, c, t.type, ((t.rot + 4 + g.turn) % 4) as Rot);
+    if (tool === 'A' || tool === 'B') {
+      const which = tool === 'A' ? 'start' : 'end', other = tool === 'A' ? ends.end : ends.start;
+      if (other[0] === r && other[1] === c) return;
+      return edit({ ends: { ...ends, [which]: [r, c] } });
+    }
+    setTile(r, c, tool, t.rot);
+  }
+
+  function check() {
+    const sol = solveRotations(grid, ends);
+    if (!sol) return setMessage('Unsolvable: no orientation of these tiles connects A to B.');
+    if (sol === 'capped') {
+      return setMessage(isConnectedStartToEnd(grid, ends)
+        ? 'A connects to B as drawn. The board is too open to count its paths.'
+        : 'The board is too open for the solver to check. Connect A to B with Turn to show it can be solved.');
+    }
+    const paths = countSolutions(grid, MAX_PATHS, ends);
+    const pathText = `${paths >= MAX_PATHS ? `${MAX_PATHS}+` : paths} possible path${paths === 1 ? '' : 's'}`;
+    setMessage(isConnectedStartToEnd(grid, ends)
+      ? `A connects to B as drawn; ${pathText}.`
+      : `Solvable, but not as drawn; ${pathText}. Use Turn to set the solved orientation.`);
+  }
+
+  function scramble() {
+    const next = scrambleGrid(grid, ends);
+    setDraft({ ...draft, start: next });
+    setPreview(true);
+    setMessage(isConnectedStartToEnd(next, ends) ? "This board can't be scrambled: every orientation connects." : null);
+  }
+
+  function exportLevel() {
+    const level = makeLevel(draft, grid, ends, start ?? undefined);
+    if (!start) setDraft({ ...draft, start: level.grid });
+    const slug = level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'level';
+    downloadText(`${slug}.json`, levelToJson(level));
+  }
+
+  async function importLevel(file: File) {
+    const level = parseLevel(await file.text());
+    if (!level) return setMessage("That file isn't a Zen Loops level.");
+    const next = { name: level.name, author: level.author ?? '', grid: solvedGrid(level), ends: level.ends, start: level.grid };
+    setDraft(next);
+    setSize({ rows: next.grid.length, cols: next.grid[0].length });
+    setPreview(false);
+    setMessage(`Opened "${level.name}"${level.author ? ` by ${level.author}` : ''}.`);
+  }
+
+  return (
+    <section aria-labelledby="editor-title">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h2 id="editor-title" className="text-lg font-medium">Level editor</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => { const { grid, ends } = blankDraft(rows, cols); edit({ grid, ends }); }} className={btnCls}>Clear</button>
+          <button onClick={check} className={btnCls}>Check</button>
+          <button onClick={scramble} className={btnCls}>Scramble</button>
+          <button onClick={exportLevel} className={btnCls}>Export</button>
+          <button onClick={() => fileRef.current?.click()} className={btnCls}>Import</button>
+          <input
+            ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) importLevel(f); e.target.value = ''; }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2 text-sm text-white/70">
+        <label className="flex items-center gap-1">
+          Name
+          <input className={`${inputCls} w-36`} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+        </label>
+        <label className="flex items-center gap-1">
+          Author
+          <input className={`${inputCls} w-28`} value={draft.author} onChange={(e) => setDraft({ ...draft, author: e.target.value })} />
+        </label>
+        <form className="flex items-center gap-1" onSubmit={(e) => { e.preventDefault(); edit(resize(draft, size.rows, size.cols)); }}>
+          Size
+          <input type="number" min={2} max={MAX_SIDE} aria-label="Rows" className={`${inputCls} w-12`}
+            value={size.rows} onChange={(e) => setSize({ ...size, rows: Number(e.target.value) })} />
+          ×
+          <input type="number" min={2} max={MAX_SIDE} aria-label="Columns" className={`${inputCls} w-12`}
+            value={size.cols} onChange={(e) => setSize({ ...size, cols: Number(e.target.value) })} />
+          <button type="submit" className="px-2 py-0.5 rounded-lg bg-white/10 hover:bg-white/15 border border-white/10">Resize</button>
+        </form>
+      </div>
+
+      <div role="toolbar" aria-label="Paint" className="flex flex-wrap items-center gap-1 mb-2">
+        {TOOLS.map(([t, label]) => (
+          <button
+            key={t}
+            aria-pressed={tool === t}
+            onClick={() => { setTool(t); setPreview(false); }}
+            className={`px-2.5 py-1 rounded-lg border text-sm ${tool === t ? 'bg-primary/20 border-primary/50 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'}`}
+          >
+            {label}
+          </button>
+        ))}
+        {start && (
+          <label className="ml-auto flex items-center gap-1 text-sm text-white/70">
+            <input type="checkbox" checked={preview} onChange={(e) => setPreview(e.target.checked)} />
+            Scrambled{par !== null && <span className="text-white/50"> · par {par}</span>}
+          </label>
+        )}
+      </div>
+      {message && <p className="mb-2 text-sm text-accent/90" role="status">{message}</p>}
+
+      <div
+        className="grid gap-1"
+        style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))`, maxWidth: cols * 56 }}
+        aria-label={`Level board, ${rows} by ${cols}`}
+      >
+        {shown.map((row, r) => row.map((tile, c) => (
+          <div key={`${r},${c}`} className="aspect-square">
+            <TileView
+              tile={tile}
+              highlighted={connected.has(`${r},${c}`)}
+              isStart={r === ends.start[0] && c === ends.start[1]}
+              isEnd={r === ends.end[0] && c === ends.end[1]}
+              strokePx={strokePx}
+              editable
+              onGesture={(g) => onGesture(r, c, g)}
+            />
+          </div>
+        )))}
+      </div>
+
+      <p className="mt-3 text-white/60 text-sm">
+        Pick a piece and tap cells to paint it; Turn (or right-click, or swipe) sets how each piece sits when solved.
+        Check that A reaches B, then Scramble and Export to share the level.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,30 @@
+// src/components/PipeLines.tsx
+// A tile's pipe segments, drawn at rotation 0 and turned by `deg` about (cx, cy).
+// Square and hex tiles each supply their own segments; this is the drawing they share.
+// `stroke` is a CSS color, usually a theme variable, so it goes in style rather than the attribute;
+// the lines inherit it from the group, which is what the flow animation changes.
+export type Segment = readonly [x1: number, y1: number, x2: number, y2: number];
+
+type Props = {
+  segments: readonly Segment[];
+  cx: number;
+  cy: number;
+  deg: number;
+  stroke: string;
+  sw: number;
+  dash?: string;
+  className?: string;
+  flowDelay?: number;
+};
+
+export default function PipeLines({ segments, cx, cy, deg, stroke, sw, dash, className, flowDelay }: Props) {
+  const line = { strokeOpacity: 0.95, strokeWidth: sw, strokeLinecap: 'round' as const, strokeDasharray: dash };
+  return (
+    <g
+      className={className}
+      style={{ stroke, transform: `rotate(${deg}deg)`, transformOrigin: `${cx}px ${cy}px`, animationDelay: flowDelay === undefined ? undefined : `${flowDelay}ms` }}
+    >
+      {segments.map(([x1, y1, x2, y2], i) => <line key={i} x1={x1} y1={y1} x2={x2} y2={y2} {...line} />)}
+    </g>
+  );
+}
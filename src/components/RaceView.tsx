@@ -0,0 +1,181 @@
+// src/components/RaceView.tsx
+// Two players on one device: the same seed built twice, side by side, each with their own
+// moves and clock. The first to connect A to B wins; the other can still finish.
+import { useEffect, useMemo, useRef, useState } from 'react';
+import TileView from './Tile';
+
+import type { Grid, Ends, Rot } from '../lib/pathfind';
+import { connectedFromStart, isConnectedStartToEnd, pathStartToEnd } from '../lib/pathfind';
+import type { Gesture } from '../lib/gestures';
+import { rotFacing } from '../lib/gestures';
+import { DIFFS } from '../lib/generate';
+import { generateBoard } from '../lib/generateInWorker';
+import { setRot } from '../lib/history';
+import { newSeed, seedToCode } from '../lib/seed';
+import { formatTime } from '../lib/stats';
+import { compareResults } from '../lib/versus';
+
+type Level = 'easy' | 'medium' | 'hard';
+type Player = { grid: Grid; moves: number; finishedMs: number | null };
+type Race = { seed: number; ends: Ends; startedAt: number; players: [Player, Player] };
+
+const btnCls = "px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm disabled:opacity-40";
+const NAMES = ['Player 1', 'Player 2'];
+const TICK_MS = 250;
+
+// Same rules as the main board, minus undo: taps and swipes turn a tile, locks are pins
+function play(race: Race, who: 0 | 1, r: number, c: number, g: Gesture): Race {
+  const p = race.players[who], t = p.grid[r][c];
+  if (t.type === 'block' || p.finishedMs !== null) return race;
+  let grid: Grid, moves = p.moves;
+  if (g.kind === 'lock') {
+    grid = p.grid.map(row => row.slice());
+    grid[r][c] = { ...t, locked: !t.locked };
+  } else {
+    const to = g.kind === 'swipe' ? rotFacing(g.dir) : (((t.rot + 4 + g.turn) % 4) as Rot);
+    if (t.locked || to === t.rot) return race;
+    grid = setRot(p.grid, r, c, to);
+    moves++;
+  }
+  const finishedMs = isConnectedStartToEnd(grid, race.ends) ? Date.now() - race.startedAt : null;
+  const players = race.players.slice() as [Player, Player];
+  players[who] = { grid, moves, finishedMs };
+  return { ...race, players };
+}
+
+function RaceBoard({ name, player, ends, timeMs, won, onGesture }: {
+  name: string; player: Player; ends: Ends; timeMs: number; won: boolean;
+  onGesture: (r: number, c: number, g: Gesture) => void;
+}) {
+  const { grid, moves, finishedMs } = player;
+  const connected = useMemo(() => connectedFromStart(grid, ends.start), [grid, ends]);
+  const path = useMemo(() => finishedMs !== null ? pathStartToEnd(grid, ends) : null, [finishedMs, grid, ends]);
+  const cols = grid[0].length;
+  return (
+    <section aria-label={name} className={`flex-1 min-w-0 p-2 rounded-2xl border ${won ? 'border-primary/60' : 'border-white/10'}`}>
+      <div className="flex items-center justify-between mb-2 text-sm">
+        <span className="font-medium">{name}{won && <span className="ml-1 text-primary">· wins!</span>}</span>
+        <span className="text-white/70 tabular-nums">{moves} moves · {formatTime(timeMs)}</span>
+      </div>
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
+        {grid.map((row, r) => row.map((tile, c) => (
+          <div key={`${r},${c}`} className="aspect-square">
+            <TileView
+              tile={tile}
+              highlighted={connected.has(`${r},${c}`)}
+              pathOn={path?.has(`${r},${c}`)}
+              isStart={r === ends.start[0] && c === ends.start[1]}
+              isEnd={r === ends.end[0] && c === ends.end[1]}
+              strokePx={5}
+              onGesture={(g) => onGesture(r, c, g)}
+            />
+          </div>
+        )))}
+      </div>
+    </section>
+  );
+}
+
+export default function RaceView() {
+  const [level, setLevel] = useState<Level>('easy');
+  const [race, setRace] = useState<Race | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [now, setNow] = useState(Date.now);
+  const generation = useRef<AbortController | null>(null);
+
+  useEffect(() => () => generation.current?.abort(), []);
+
+  const running = !!race && race.players.some(p => p.finishedMs === null);
+  useEffect(() => {
+    if (!running) return;
+    const id = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(id);
+  }, [running]);
+
+  async function start() {
+    generation.current?.abort();
+    const ctl = new AbortController();
+    generation.current = ctl;
+    setGenerating(true); setFailed(false);
+    const seed = newSeed();
+    try {
+      const { grid, ends } = await generateBoard({ ...DIFFS[level], mode: 'path', seed }, ctl.signal);
+      const startedAt = Date.now();
+      setNow(startedAt);
+      setRace({ seed, ends, startedAt, players: [0, 1].map(() => ({ grid, moves: 0, finishedMs: null })) as [Player, Player] });
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) setFailed(true);
+    } finally {
+      if (generation.current === ctl) { generation.current = null; setGenerating(false); }
+    }
+  }
+
+  // both players share the one state: updates go through the latest race, so taps at the same moment both land
+  const onGesture = (who: 0 | 1, r: number, c: number, g: Gesture) => setRace(race => race && play(race, who, r, c, g));
+
+  const timeOf = (p: Player) => p.finishedMs ?? (race ? Math.max(0, now - race.startedAt) : 0);
+  const finishers = race
+    ? ([0, 1] as const).filter(i => race.players[i].finishedMs !== null)
+      .sort((a, b) => compareResults(
+        { moves: race.players[a].moves, timeMs: race.players[a].finishedMs! },
+        { moves: race.players[b].moves, timeMs: race.players[b].finishedMs! },
+      ))
+    : [];
+  const winner = finishers[0];
+
+  return (
+    <section aria-labelledby="race-title">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 id="race-title" className="text-lg font-medium">Race</h2>
+        <div className="flex items-center gap-2">
+          <label htmlFor="race-level" className="text-white/60 text-sm">Level</label>
+          <select
+            id="race-level"
+            className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+            value={level}
+            onChange={(e) => setLevel(e.target.value as Level)}
+          >
+            <option value="easy">Easy</option>
+            <option value="medium">Medium</option>
+            <option value="hard">Hard</option>
+          </select>
+          <button onClick={start} disabled={generating} className={btnCls}>{race ? 'Rematch' : 'Start race'}</button>
+        </div>
+      </div>
+
+      {generating && <p className="mb-2 text-sm text-white/60">Generating board…</p>}
+      {failed && (
+        <p className="mb-2 text-sm text-accent/90">
+          Couldn't make the board.{' '}
+          <button onClick={start} className="underline underline-offset-2 hover:text-accent">Try again</button>
+        </p>
+      )}
+      {race && winner !== undefined && (
+        <p className="mb-2 text-sm text-primary/90" role="status">
+          {NAMES[winner]} wins in {race.players[winner].moves} moves, {formatTime(race.players[winner].finishedMs!)}!
+          {finishers.length < 2 && <span className="text-white/60"> {NAMES[1 - winner]} can still finish.</span>}
+        </p>
+      )}
+
+      {race ? (
+        <>
+          <div className="flex gap-2">
+            {race.players.map((p, i) => (
+              <RaceBoard
+                key={i} name={NAMES[i]} player={p} ends={race.ends} timeMs={timeOf(p)} won={winner === i}
+                onGesture={(r, c, g) => onGesture(i as 0 | 1, r, c, g)}
+              />
+            ))}
+          </div>
+          <p className="mt-2 text-white/40 text-xs font-mono">#{seedToCode(race.seed)}</p>
+        </>
+      ) : (
+        <p className="text-sm text-white/60">
+          Two players, one screen: you both get the same board, each on your own side.
+          The first to connect <span className="text-primary">A</span> to <span className="text-accent">B</span> wins.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,188 @@
+// src/components/ReplayView.tsx
+// Plays back the last board's recording, or an exported one: play / pause at a chosen speed,
+// scrub, step turn by turn, with the region connected to A (the source, on Net) lit as it grows.
+import { useEffect, useMemo, useRef, useState } from 'react';
+import TileView from './Tile';
+import HexTile from './HexTile';
+import BoardCanvas from './BoardCanvas';
+
+import { connectivity } from '../lib/pathfind';
+import { TOPOLOGIES } from '../lib/topology';
+import { hexTileAt, hexBoardSize, hexFit, HEX_RATIO } from '../lib/hexLayout';
+import type { Replay } from '../lib/replay';
+import { replayOf, gridAt, playbackTimes, stepsBy, replayToJson, parseReplay } from '../lib/replay';
+import { getLastPlayed, getSlot } from '../lib/saves';
+import { seedToCode } from '../lib/seed';
+import { formatTime } from '../lib/stats';
+import { dateKey } from '../lib/daily';
+import { downloadText } from '../lib/file';
+
+const btnCls = "px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm disabled:opacity-40";
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const BOARD_PX = 520;     // widest the board is drawn
+const MAX_TILE = 48;
+const CANVAS_CELLS = 225; // as on the play board
+
+function lastReplay(): Replay | null {
+  const last = getLastPlayed();
+  const slot = last && getSlot(last.mode, last.difficulty, last.id, last.topology);
+  return slot ? replayOf(slot) : null;
+}
+
+const noop = () => {};
+
+export default function ReplayView() {
+  const [replay, setReplay] = useState(lastReplay);
+  const [pos, setPos] = useState(0); // ms into playback
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const times = useMemo(() => replay ? playbackTimes(replay.steps) : [], [replay]);
+  const duration = times[times.length - 1] ?? 0;
+  const n = stepsBy(times, pos);
+  const grid = useMemo(() => replay ? gridAt(replay, n) : null, [replay, n]);
+  const topo = TOPOLOGIES[replay?.topology ?? 'square'];
+  const conn = useMemo(() => replay && grid ? connectivity(grid, replay.ends.start, topo) : null, [replay, grid, topo]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0, last = performance.now();
+    const tick = (now: number) => {
+      const dt = (now - last) * speed;
+      last = now;
+      setPos(p => Math.min(duration, p + dt));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, duration]);
+  if (playing && pos >= duration) setPlaying(false);
+
+  function open(r: Replay | null, from: string) {
+    if (!r) return setMessage(`That file isn't a Zen Loops replay.`);
+    setReplay(r); setPos(0); setPlaying(false); setMessage(`Opened ${from}.`);
+  }
+
+  async function upload(file: File) {
+    open(parseReplay(await file.text()), file.name);
+  }
+
+  const toolbar = (
+    <div className="flex items-center gap-2">
+      {replay && (
+        <button onClick={() => downloadText(`zen-loops-replay-${dateKey()}.json`, replayToJson(replay))} className={btnCls}>Export</button>
+      )}
+      <button onClick={() => fileRef.current?.click()} className={btnCls}>Open…</button>
+      <input
+        ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+        onChange={(e) => { const f = e.target.files?.[0]; if (f) upload(f); e.target.value = ''; }}
+      />
+    </div>
+  );
+
+  if (!replay || !grid || !conn) {
+    return (
+      <section aria-labelledby="replay-title">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <h2 id="replay-title" className="text-lg font-medium">Replay</h2>
+          {toolbar}
+        </div>
+        {message && <p className="mb-2 text-sm text-accent/90" role="status">{message}</p>}
+        <p className="text-sm text-white/50">Nothing recorded yet. Play a board and its turns show up here.</p>
+      </section>
+    );
+  }
+
+  const rows = grid.length, cols = grid[0].length, hex = replay.topology === 'hex';
+  const openTiles = grid.flat().filter(t => t.type !== 'block').length;
+  const isStart = (r: number, c: number) => replay.mode === 'path' && r === replay.ends.start[0] && c === replay.ends.start[1];
+  const isEnd = (r: number, c: number) => replay.mode === 'path' && r === replay.ends.end[0] && c === replay.ends.end[1];
+  const lastStep = replay.steps[n - 1];
+  const title = [
+    replay.topology === 'hex' && 'Hex', replay.mode === 'net' && 'Net',
+    replay.difficulty[0].toUpperCase() + replay.difficulty.slice(1),
+    replay.seed !== undefined && `#${seedToCode(replay.seed)}`,
+  ].filter(Boolean).join(' · ');
+
+  let board;
+  if (hex) {
+    const size = Math.floor(Math.min(MAX_TILE, hexFit(rows, cols, BOARD_PX, BOARD_PX)));
+    const { width, height } = hexBoardSize(rows, cols, size);
+    board = (
+      <div className="relative" style={{ width, height }} aria-label="Replay board">
+        {grid.map((row, r) => row.map((tile, c) => (
+          <div key={`${r},${c}`} className="absolute" style={{ ...hexTileAt(r, c, size), width: size * HEX_RATIO, height: size }}>
+            <HexTile tile={tile} highlighted={conn.reach[r * cols + c] === 1} isStart={isStart(r, c)} isEnd={isEnd(r, c)}
+              strokePx={Math.max(3, Math.round(size * 0.14))} tabIndex={-1} onGesture={noop} />
+          </div>
+        )))}
+      </div>
+    );
+  } else if (rows * cols > CANVAS_CELLS) {
+    const size = Math.max(6, Math.floor(BOARD_PX / cols) - 1);
+    board = (
+      <BoardCanvas
+        grid={grid} tileSize={size} gap={1} strokePx={Math.max(1, Math.round(size * 0.18))}
+        reach={conn.reach} onPath={() => false} ends={replay.mode === 'path' ? replay.ends : undefined}
+        cursor={[-1, -1]} label="Replay board" onGesture={noop} onKeyDown={noop}
+      />
+    );
+  } else {
+    board = (
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))`, maxWidth: cols * MAX_TILE }} aria-label="Replay board">
+        {grid.map((row, r) => row.map((tile, c) => (
+          <div key={`${r},${c}`} className="aspect-square">
+            <TileView tile={tile} highlighted={conn.reach[r * cols + c] === 1} isStart={isStart(r, c)} isEnd={isEnd(r, c)}
+              strokePx={cols > 8 ? 5 : 7} tabIndex={-1} onGesture={noop} />
+          </div>
+        )))}
+      </div>
+    );
+  }
+
+  return (
+    <section aria-labelledby="replay-title">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 id="replay-title" className="text-lg font-medium">Replay <span className="text-sm text-white/50 font-normal">{title}</span></h2>
+        {toolbar}
+      </div>
+      {message && <p className="mb-2 text-sm text-accent/90" role="status">{message}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <button onClick={() => { setPos(p => Math.max(0, times[stepsBy(times, p) - 2] ?? 0)); setPlaying(false); }} disabled={n === 0} aria-label="Step back" className={btnCls}>⏮</button>
+        <button
+          onClick={() => { if (pos >= duration) setPos(0); setPlaying(!playing); }}
+          disabled={!times.length}
+          className={btnCls}
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={() => { setPos(times[n] ?? duration); setPlaying(false); }} disabled={n >= times.length} aria-label="Step forward" className={btnCls}>⏭</button>
+        <label htmlFor="replay-speed" className="text-white/60 text-sm">Speed</label>
+        <select
+          id="replay-speed"
+          className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+        >
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+      <input
+        type="range" min={0} max={duration} step={1} value={Math.min(pos, duration)}
+        onChange={(e) => { setPos(Number(e.target.value)); setPlaying(false); }}
+        aria-label="Position in replay"
+        className="w-full mb-2 accent-primary"
+      />
+      <p className="mb-3 text-sm text-white/70 tabular-nums">
+        Turn <b>{n}</b> of {replay.steps.length}
+        {lastStep && <> · {formatTime(lastStep[0])} · row {lastStep[1] + 1}, column {lastStep[2] + 1}</>}
+        {' '}· {conn.size} of {openTiles} tiles connected to {replay.mode === 'net' ? 'the source' : 'A'}
+      </p>
+
+      {board}
+    </section>
+  );
+}
@@ -0,0 +1,64 @@
+// src/components/SettingsView.tsx
+import { useState } from 'react';
+import type { Motion, Settings, ThemeId } from '../lib/theme';
+import { THEMES, loadSettings, saveSettings, applySettings } from '../lib/theme';
+
+const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export default function SettingsView() {
+  const [settings, setSettings] = useState(loadSettings);
+
+  function update(patch: Partial<Settings>) {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSettings(next);
+    applySettings(next);
+  }
+
+  return (
+    <section aria-labelledby="settings-title">
+      <h2 id="settings-title" className="text-lg font-medium mb-3">Settings</h2>
+
+      <fieldset className="mb-4">
+        <legend className="text-sm text-white/70 mb-2">Theme</legend>
+        <div className="grid sm:grid-cols-2 gap-2">
+          {THEME_IDS.map(id => {
+            const { name, note, palette } = THEMES[id];
+            return (
+              <label
+                key={id}
+                className={`flex items-center gap-3 p-2 rounded-xl border cursor-pointer has-focus-visible:outline-2 has-focus-visible:outline-white/80 ${settings.theme === id ? 'bg-white/15 border-white/30' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+              >
+                <input type="radio" name="theme" value={id} checked={settings.theme === id} onChange={() => update({ theme: id })} className="sr-only" />
+                <span className="flex shrink-0 rounded-lg overflow-hidden border border-white/10" aria-hidden>
+                  {[palette.bg, palette.line, palette.primary, palette.accent].map((color, i) => (
+                    <span key={i} className="w-4 h-6" style={{ background: color }} />
+                  ))}
+                </span>
+                <span>
+                  <span className="block text-sm">{name}</span>
+                  <span className="block text-xs text-white/50">{note}</span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="motion" className="text-sm text-white/70">Motion</label>
+        <select
+          id="motion"
+          className="bg-white/10 text-white/90 border border-white/10 rounded-xl px-2 py-1 text-sm"
+          value={settings.motion}
+          onChange={(e) => update({ motion: e.target.value as Motion })}
+        >
+          <option value="system">Follow system</option>
+          <option value="reduce">Reduced</option>
+          <option value="full">Full</option>
+        </select>
+      </div>
+      <p className="mt-2 text-xs text-white/50">Reduced turns off tile animations. Connected tiles carry a dot and solved ones a check, in every theme.</p>
+    </section>
+  );
+}
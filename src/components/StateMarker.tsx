@@ -0,0 +1,15 @@
+// src/components/StateMarker.tsx
+// A glyph for a tile's state next to the line color: a dot when it's connected to A,
+// a check when it's on the solved path. Nothing otherwise.
+type Props = { solved?: boolean; connected?: boolean; className?: string };
+
+export default function StateMarker({ solved, connected, className }: Props) {
+  if (!solved && !connected) return null;
+  return (
+    <svg viewBox="0 0 10 10" className={`pointer-events-none ${className ?? ''}`} aria-hidden>
+      {solved
+        ? <path d="M1.5 5.5 4 8 8.5 2" fill="none" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" style={{ stroke: 'var(--zl-primary)' }} />
+        : <circle cx="5" cy="5" r="2.5" style={{ fill: 'var(--zl-primary)' }} />}
+    </svg>
+  );
+}
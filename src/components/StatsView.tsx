@@ -0,0 +1,94 @@
+// src/components/StatsView.tsx
+import { useRef, useState } from 'react';
+import type { LevelStats } from '../lib/stats';
+import { loadGames, summarize, formatTime, exportStats, importStats } from '../lib/stats';
+import { dateKey } from '../lib/daily';
+import { downloadText } from '../lib/file';
+
+const btnCls = "px-3 py-1.5 rounded-xl bg-white/10 hover:bg-white/15 text-white/90 border border-white/10 text-sm";
+const CHART_GAMES = 20; // most recent solves per chart
+
+const levelName = (s: LevelStats) =>
+  `${s.topology === 'hex' ? 'Hex · ' : ''}${s.mode === 'net' ? 'Net · ' : ''}${s.difficulty[0].toUpperCase()}${s.difficulty.slice(1)}`;
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+
+// par / moves for the latest solves, one bar each; full height = solved at par
+function EfficiencyChart({ values }: { values: number[] }) {
+  const recent = values.slice(-CHART_GAMES);
+  if (!recent.length) return <span className="text-white/40">–</span>;
+  const avg = recent.reduce((a, b) => a + b, 0) / recent.length;
+  return (
+    <div className="flex items-end gap-0.5 h-6" role="img"
+      aria-label={`Move efficiency over the last ${recent.length} solves, average ${pct(avg)}`}>
+      {recent.map((v, i) => (
+        <div key={i} className="w-1.5 rounded-sm bg-primary/70" style={{ height: `${Math.max(8, v * 100)}%` }} title={pct(v)} />
+      ))}
+    </div>
+  );
+}
+
+export default function StatsView() {
+  const [levels, setLevels] = useState(() => summarize(loadGames()));
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const played = levels.reduce((n, s) => n + s.played, 0);
+  const solved = levels.reduce((n, s) => n + s.solved, 0);
+
+  async function upload(file: File) {
+    const added = importStats(await file.text());
+    setMessage(added === null ? "That file isn't a Zen Loops export." : `Imported ${added} new game${added === 1 ? '' : 's'}.`);
+    setLevels(summarize(loadGames()));
+  }
+
+  return (
+    <section aria-labelledby="stats-title">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 id="stats-title" className="text-lg font-medium">Stats</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => downloadText(`zen-loops-stats-${dateKey()}.json`, exportStats())} className={btnCls}>Export</button>
+          <button onClick={() => fileRef.current?.click()} className={btnCls}>Import</button>
+          <input
+            ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) upload(f); e.target.value = ''; }}
+          />
+        </div>
+      </div>
+      {message && <p className="mb-2 text-sm text-accent/90" role="status">{message}</p>}
+
+      <p className="mb-3 text-sm text-white/70">
+        Games played: <b>{played}</b> · Solved: <b>{solved}</b>
+        {played > 0 && <> · Solve rate: <b>{pct(solved / played)}</b></>}
+      </p>
+
+      {levels.length === 0 ? (
+        <p className="text-sm text-white/50">No games yet. Finish a board and it shows up here.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-white/50 text-left">
+            <tr>
+              <th className="font-normal py-1">Level</th>
+              <th className="font-normal">Played</th>
+              <th className="font-normal">Solved</th>
+              <th className="font-normal">Best</th>
+              <th className="font-normal">Median</th>
+              <th className="font-normal">Efficiency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {levels.map(s => (
+              <tr key={`${s.topology}:${s.mode}:${s.difficulty}`} className="border-t border-white/5">
+                <td className="py-1.5">{levelName(s)}</td>
+                <td>{s.played}</td>
+                <td>{pct(s.solved / s.played)}</td>
+                <td className="tabular-nums">{s.bestMs !== null ? formatTime(s.bestMs) : '–'}</td>
+                <td className="tabular-nums">{s.medianMs !== null ? formatTime(s.medianMs) : '–'}</td>
+                <td><EfficiencyChart values={s.efficiency} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
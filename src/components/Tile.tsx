@@ -1,46 +1,76 @@
 // src/components/Tile.tsx
-import type { Tile } from '../lib/pathfind';
+import type { Ref } from 'react';
+import type { Tile, TileType, Rot } from '../lib/pathfind';
+import type { Gesture } from '../lib/gestures';
+import { useGestures } from '../lib/useGestures';
+import { tileLabel } from '../lib/describe';
+import { useSpin } from '../lib/useSpin';
+import StateMarker from './StateMarker';
+import PipeLines, { type Segment } from './PipeLines';
 
 type Props = {
   tile: Tile;
-  onRotate: () => void;
+  onGesture: (g: Gesture) => void;
   highlighted?: boolean;
   pathOn?: boolean;   // color the lines when on solved path
   isStart?: boolean;  // A
   isEnd?: boolean;    // B
   strokePx?: number;  // <-- NEW: dynamic stroke width
+  hintRot?: Rot;      // show this orientation as a ghost overlay (Hint)
+  flowDelay?: number; // ms: when the solved-path flow reaches this tile
+  ref?: Ref<HTMLButtonElement>;
+  tabIndex?: number;  // roving tabindex: only the board's current tile is 0
+  onFocus?: () => void;
+  editable?: boolean; // level editor: blocks take gestures too, to be painted over
 };
 
-export default function TileView({ tile, onRotate, highlighted, pathOn, isStart, isEnd, strokePx }: Props) {
-  const deg = tile.rot * 90;
+// Pipe segments per square tile type at rotation 0, in the 64×64 viewBox
+const SEGMENTS: Partial<Record<TileType, Segment[]>> = {
+  end: [[32, 14, 32, 32]],
+  straight: [[32, 6, 32, 58]],
+  corner: [[32, 6, 32, 32], [32, 32, 58, 32]],
+  tee: [[8, 32, 56, 32], [32, 6, 32, 32]],
+  cross: [[8, 32, 56, 32], [32, 8, 32, 56]],
+};
+
+export default function TileView(props: Props) {
+  const { tile, onGesture, highlighted, pathOn, isStart, isEnd, strokePx, hintRot, flowDelay, ref, tabIndex, onFocus, editable } = props;
+  const deg = useSpin(tile.rot, 4) * 90;
   const isBlock = tile.type === 'block';
+  const inert = isBlock && !editable;
+  const gestures = useGestures(onGesture, { enabled: () => !inert });
 
-  // Line color: teal on solved path, white otherwise
-  const stroke = pathOn ? '#34d399' : 'white';
+  // Line color: the theme's primary on solved path, its line color otherwise
+  const stroke = pathOn ? 'var(--zl-primary)' : 'var(--zl-line)';
   const sw = strokePx ?? 8; // default 8 if not provided
+  const segments = SEGMENTS[tile.type] ?? [];
 
   return (
     <button
-      aria-label={
-        isBlock
-          ? 'Blocked tile'
-          : `Tile ${tile.type}, rotation ${deg} degrees. Press Enter/Space or tap to rotate.`
-      }
-      onClick={() => { if (!isBlock) onRotate(); }}
+      ref={ref}
+      tabIndex={tabIndex}
+      onFocus={onFocus}
+      aria-label={tileLabel(props)}
+      {...gestures}
+      // pointers are handled above; a click with no pointer behind it comes from assistive tech
+      onClick={(e) => { if (!inert && e.detail === 0) onGesture({ kind: 'rotate', turn: 1 }); }}
       onKeyDown={(e) => {
-        if (isBlock) return;
-        if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onRotate(); }
+        if (inert) return;
+        if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onGesture({ kind: 'rotate', turn: 1 }); }
       }}
-      disabled={isBlock}
+      aria-disabled={inert || undefined} // still focusable so arrow keys can cross it
       className={[
         "relative rounded-2xl border shadow-soft",
-        isBlock ? "bg-black/50 border-white/10 cursor-not-allowed" : "bg-[#111827CC] border-white/5",
-        "flex items-center justify-center select-none",
-        "transition-transform duration-150",
-        isBlock ? "" : "active:scale-95",
-        highlighted && !isBlock ? "ring-2 ring-primary/60" : "ring-0",
+        isBlock ? `bg-block border-white/10 ${inert ? "cursor-not-allowed" : ""}`
+          : tile.locked ? "bg-tile-locked border-white/30" : "bg-tile border-white/5",
+        "flex items-center justify-center select-none touch-none",
+        "motion-ok:transition-transform motion-ok:duration-150",
+        isBlock || tile.locked ? "" : "motion-ok:active:scale-95",
+        highlighted && !isBlock && hintRot === undefined ? "ring-2 ring-primary/60" : "ring-0",
         isStart ? "outline outline-1 outline-primary/70" : "",
         isEnd ?   "outline outline-1 outline-accent/70"  : "",
+        hintRot !== undefined ? "ring-2 ring-accent" : "",
+        "focus-visible:outline-2 focus-visible:outline-white/80",
         "w-full h-full" // exact pixel sizing comes from the wrapper
       ].join(" ")}
     >
@@ -53,38 +83,35 @@ export default function TileView({ tile, onRotate, highlighted, pathOn, isStart,
       ) : (
         // Rotatable pipe tile
         <svg viewBox="0 0 64 64" className="w-5/6 h-5/6">
-          <g style={{ transform: `rotate(${deg}deg)`, transformOrigin: '32px 32px' }}>
-            {tile.type === 'end' && (
-              <line x1="32" y1="14" x2="32" y2="32" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-            )}
-            {tile.type === 'straight' && (
-              <line x1="32" y1="6" x2="32" y2="58" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-            )}
-            {tile.type === 'corner' && (
-              <>
-                <line x1="32" y1="6"  x2="32" y2="32" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-                <line x1="32" y1="32" x2="58" y2="32" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-              </>
-            )}
-            {tile.type === 'tee' && (
-              <>
-                <line x1="8"  y1="32" x2="56" y2="32" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-                <line x1="32" y1="6"  x2="32" y2="32" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-              </>
-            )}
-            {tile.type === 'cross' && (
-              <>
-                <line x1="8"  y1="32" x2="56" y2="32" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-                <line x1="32" y1="8"  x2="32" y2="56" stroke={stroke} strokeOpacity="0.95" strokeWidth={sw} strokeLinecap="round" />
-              </>
-            )}
-          </g>
+          <PipeLines
+            segments={segments} cx={32} cy={32} deg={deg} stroke={stroke} sw={sw}
+            className={`motion-ok:transition-transform motion-ok:duration-200 motion-ok:ease-out ${flowDelay !== undefined ? 'motion-ok:animate-flow' : ''}`}
+            flowDelay={flowDelay}
+          />
+        </svg>
+      )}
+
+      {/* Hint: target orientation drawn as a dashed ghost on top */}
+      {hintRot !== undefined && !isBlock && (
+        <svg viewBox="0 0 64 64" className="absolute inset-0 m-auto w-5/6 h-5/6 pointer-events-none opacity-80">
+          <PipeLines segments={segments} cx={32} cy={32} deg={hintRot * 90} stroke="var(--zl-accent)" sw={Math.max(2, sw / 2)} dash="4 6" />
         </svg>
       )}
 
       {/* A / B badges */}
       {isStart && <span className="absolute left-1.5 top-1.5 text-[10px] px-1.5 py-0.5 rounded bg-primary/20 text-primary">A</span>}
       {isEnd &&   <span className="absolute right-1.5 bottom-1.5 text-[10px] px-1.5 py-0.5 rounded bg-accent/20 text-accent">B</span>}
+
+      {/* State marker, bottom left, so connected / solved doesn't rest on color alone */}
+      {!isBlock && <StateMarker solved={pathOn} connected={highlighted} className="absolute left-1.5 bottom-1.5 w-2.5 h-2.5" />}
+
+      {/* Locked: small padlock, top right */}
+      {tile.locked && (
+        <svg viewBox="0 0 16 16" className="absolute right-1.5 top-1.5 w-3 h-3 opacity-70 pointer-events-none" aria-hidden>
+          <rect x="3" y="7" width="10" height="8" rx="1.5" fill="white" />
+          <path d="M5 7V5a3 3 0 0 1 6 0v2" fill="none" stroke="white" strokeWidth="1.8" />
+        </svg>
+      )}
     </button>
   );
 }
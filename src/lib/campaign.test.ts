@@ -0,0 +1,59 @@
+// src/lib/campaign.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseManifest, parsePack, parseProgress, isUnlocked, bestOf, resumeLevel, nextLevel } from './campaign';
+import { solveRotations, isConnectedStartToEnd } from './pathfind';
+import { solvedGrid } from './level';
+
+const files = import.meta.glob('/public/levels/*.json', { eager: true, import: 'default' });
+const read = (file: string): unknown => files[`/public/levels/${file}`];
+
+describe('bundled packs', () => {
+  const refs = parseManifest(read('manifest.json'));
+
+  it('are all listed and load', () => {
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) expect(parsePack(read(ref.file))?.id, ref.file).toBe(ref.id);
+  });
+
+  it('have solvable levels that start unsolved and are solved as drawn', () => {
+    for (const ref of refs) for (const level of parsePack(read(ref.file))!.levels) {
+      expect(isConnectedStartToEnd(level.grid, level.ends), level.name).toBe(false);
+      expect(solveRotations(level.grid, level.ends), level.name).not.toBeNull();
+      expect(isConnectedStartToEnd(solvedGrid(level), level.ends), level.name).toBe(true);
+    }
+  });
+});
+
+describe('progress', () => {
+  const pack = parsePack(read('first-steps.json'))!;
+  const progress = { 'first-steps': { 0: { moves: 9, timeMs: 20_000, stars: 3 as const } } };
+
+  it('unlocks levels in order', () => {
+    expect(isUnlocked({}, { pack: 'first-steps', index: 0 })).toBe(true);
+    expect(isUnlocked({}, { pack: 'first-steps', index: 1 })).toBe(false);
+    expect(isUnlocked(progress, { pack: 'first-steps', index: 1 })).toBe(true);
+    expect(isUnlocked(progress, { pack: 'first-steps', index: 2 })).toBe(false);
+  });
+
+  it('resumes at the first unfinished level and stops at the end of a pack', () => {
+    expect(resumeLevel(pack, progress)).toEqual({ pack: 'first-steps', index: 1 });
+    expect(nextLevel(pack, pack.levels.length - 1)).toBeNull();
+  });
+
+  it('keeps the best of each score', () => {
+    expect(bestOf({ moves: 9, timeMs: 20_000, stars: 3 }, { moves: 12, timeMs: 15_000, stars: 2 }))
+      .toEqual({ moves: 9, timeMs: 15_000, stars: 3 });
+  });
+
+  it('drops malformed progress entries and keeps the rest', () => {
+    expect(parseProgress(progress)).toEqual(progress);
+    expect(parseProgress([])).toEqual({});
+    expect(parseProgress({ 'first-steps': { ...progress['first-steps'], 1: { timeMs: 5 }, x: progress['first-steps'][0] }, other: [] }))
+      .toEqual(progress);
+  });
+
+  it('rejects a pack with a bad level', () => {
+    const raw = read('first-steps.json') as { levels: unknown[] };
+    expect(parsePack({ ...raw, levels: [...raw.levels, { name: 'broken' }] })).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+// src/lib/campaign.ts
+// Campaign: level packs listed in public/levels/manifest.json (precached with the app).
+// Levels in a pack unlock one after another; the best result per level is kept locally.
+import type { LevelFile } from './level';
+import { validateLevel } from './level';
+import type { LevelRef } from './saves';
+import type { Stars } from './score';
+import { starsFor } from './score';
+
+export interface PackRef { id: string; name: string; file: string; description?: string; }
+export interface LevelPack { id: string; name: string; author?: string; levels: LevelFile[]; }
+export interface LevelBest { moves: number; timeMs: number; stars: Stars | null; }
+export type CampaignProgress = Record<string, Record<number, LevelBest>>; // pack id → level index → best
+
+const PROGRESS_KEY = 'zenloops:campaign';
+const LEVELS_URL = `${import.meta.env.BASE_URL}levels/`;
+
+// ----- validation -----
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isStr = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+
+export function parseManifest(v: unknown): PackRef[] {
+  if (!isObj(v) || v.v !== 1 || !Array.isArray(v.packs)) return [];
+  return v.packs.filter((p): p is PackRef => isObj(p) && isStr(p.id) && isStr(p.name) && isStr(p.file)
+    && (p.description === undefined || typeof p.description === 'string'));
+}
+
+/** A pack with any bad level is rejected whole: dropping one would shift the unlock order. */
+export function parsePack(v: unknown): LevelPack | null {
+  if (!isObj(v) || !isStr(v.id) || !isStr(v.name) || !Array.isArray(v.levels) || !v.levels.length) return null;
+  const levels = v.levels.map(validateLevel);
+  if (levels.some(l => l === null)) return null;
+  return { id: v.id, name: v.name, ...(typeof v.author === 'string' ? { author: v.author } : {}), levels: levels as LevelFile[] };
+}
+
+// ----- loading (fetched once per session; failures are retried next time) -----
+let manifest: Promise<PackRef[]> | null = null;
+const packs = new Map<string, Promise<LevelPack | null>>();
+
+const getJson = (file: string) => fetch(`${LEVELS_URL}${file}`).then(r => r.ok ? r.json() as Promise<unknown> : null);
+
+export function loadManifest(): Promise<PackRef[]> {
+  manifest ??= getJson('manifest.json').then(parseManifest).then(list => {
+    if (!list.length) manifest = null;
+    return list;
+  }, () => { manifest = null; return []; });
+  return manifest;
+}
+
+export function loadPack(id: string): Promise<LevelPack | null> {
+  let p = packs.get(id);
+  if (!p) {
+    p = loadManifest().then(list => {
+      const ref = list.find(r => r.id === id);
+      return ref ? getJson(ref.file).then(parsePack) : null;
+    }).then(pack => pack?.id === id ? pack : null, () => null);
+    p.then(pack => { if (!pack) packs.delete(id); });
+    packs.set(id, p);
+  }
+  return p;
+}
+
+// ----- progress -----
+const isCount = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+const isBest = (v: unknown): v is LevelBest => isObj(v) && isCount(v.moves) && isCount(v.timeMs)
+  && (v.stars === null || v.stars === 1 || v.stars === 2 || v.stars === 3);
+
+/** Check stored progress; bad entries are dropped, not the rest of it. */
+export function parseProgress(v: unknown): CampaignProgress {
+  if (!isObj(v)) return {};
+  const progress: CampaignProgress = {};
+  for (const [id, levels] of Object.entries(v)) {
+    if (!isObj(levels)) continue;
+    const kept = Object.fromEntries(Object.entries(levels).filter((e): e is [string, LevelBest] => /^\d+$/.test(e[0]) && isBest(e[1])));
+    if (Object.keys(kept).length) progress[id] = kept;
+  }
+  return progress;
+}
+
+export function loadProgress(): CampaignProgress {
+  try {
+    const raw = localStorage.getItem(PROGRESS_KEY);
+    return raw ? parseProgress(JSON.parse(raw)) : {};
+  } catch { return {}; }
+}
+
+export const isDone = (progress: CampaignProgress, ref: LevelRef) => progress[ref.pack]?.[ref.index] !== undefined;
+
+/** The first level is always open; every other one needs the level before it. */
+export const isUnlocked = (progress: CampaignProgress, ref: LevelRef) =>
+  ref.index === 0 || isDone(progress, { pack: ref.pack, index: ref.index - 1 });
+
+/** Fewest moves, fastest time and most stars are each kept separately. */
+export function bestOf(old: LevelBest | undefined, run: LevelBest): LevelBest {
+  if (!old) return run;
+  return {
+    moves: Math.min(old.moves, run.moves),
+    timeMs: Math.min(old.timeMs, run.timeMs),
+    stars: run.stars === null ? old.stars : Math.max(old.stars ?? 1, run.stars) as Stars,
+  };
+}
+
+export function recordLevel(ref: LevelRef, moves: number, timeMs: number, par: number | null): CampaignProgress {
+  const progress = loadProgress();
+  const pack = progress[ref.pack] ?? {};
+  pack[ref.index] = bestOf(pack[ref.index], { moves, timeMs, stars: par === null ? null : starsFor(moves, par) });
+  progress[ref.pack] = pack;
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  return progress;
+}
+
+export const nextLevel = (pack: LevelPack, index: number): LevelRef | null =>
+  index + 1 < pack.levels.length ? { pack: pack.id, index: index + 1 } : null;
+
+/** Where to pick a pack up again: the first level not yet done, or the last one. */
+export function resumeLevel(pack: LevelPack, progress: CampaignProgress): LevelRef {
+  const i = pack.levels.findIndex((_, index) => !isDone(progress, { pack: pack.id, index }));
+  return { pack: pack.id, index: i < 0 ? pack.levels.length - 1 : i };
+}
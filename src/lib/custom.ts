@@ -0,0 +1,51 @@
+// src/lib/custom.ts
+// "Custom" boards: any size up to MAX_SIDE, any block fraction, A/B anywhere.
+import type { Cell, Ends } from './pathfind';
+
+export type CustomConfig = { rows: number; cols: number; blockFraction: number; ends: Ends };
+
+export const MAX_SIDE = 40;
+const CONFIG_KEY = 'zenloops:custom-config';
+
+export const defaultCustom = (): CustomConfig => ({
+  rows: 8, cols: 10, blockFraction: 0.12, ends: { start: [0, 0], end: [7, 9] },
+});
+
+const clamp = (n: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, Math.round(n) || lo));
+
+/** Force sizes, block fraction and A/B into range; B moves if it would sit on A. */
+export function normalizeCustom(cfg: CustomConfig): CustomConfig {
+  const rows = clamp(cfg.rows, 2, MAX_SIDE), cols = clamp(cfg.cols, 2, MAX_SIDE);
+  const fit = ([r, c]: Cell): Cell => [clamp(r, 0, rows - 1), clamp(c, 0, cols - 1)];
+  const start = fit(cfg.ends.start);
+  let end = fit(cfg.ends.end);
+  if (end[0] === start[0] && end[1] === start[1]) end = start[0] === rows - 1 && start[1] === cols - 1 ? [0, 0] : [rows - 1, cols - 1];
+  const blockFraction = Math.min(0.35, Math.max(0, Number(cfg.blockFraction) || 0));
+  return { rows, cols, blockFraction, ends: { start, end } };
+}
+
+export function loadCustom(): CustomConfig {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    return raw ? normalizeCustom(JSON.parse(raw) as CustomConfig) : defaultCustom();
+  } catch { return defaultCustom(); }
+}
+export function saveCustom(cfg: CustomConfig) {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(cfg));
+}
+
+// Share-link encoding: r=rows c=cols b=block% a=row,col of A z=row,col of B
+export function customToParams(cfg: CustomConfig): string {
+  const { start, end } = cfg.ends;
+  return `r=${cfg.rows}&c=${cfg.cols}&b=${Math.round(cfg.blockFraction * 100)}&a=${start.join(',')}&z=${end.join(',')}`;
+}
+export function customFromParams(p: URLSearchParams): CustomConfig | null {
+  const cell = (v: string | null): Cell | null => {
+    const m = v?.match(/^(\d+),(\d+)$/);
+    return m ? [Number(m[1]), Number(m[2])] : null;
+  };
+  const rows = Number(p.get('r')), cols = Number(p.get('c')), b = Number(p.get('b'));
+  const start = cell(p.get('a')), end = cell(p.get('z'));
+  if (!rows || !cols || Number.isNaN(b) || !start || !end) return null;
+  return normalizeCustom({ rows, cols, blockFraction: b / 100, ends: { start, end } });
+}
@@ -0,0 +1,79 @@
+// src/lib/daily.ts
+// Daily puzzle: one seed per local calendar day, plus a small log of results for streaks.
+
+export interface DailyEntry {
+  startedAt: number;                          // first time today's board was opened (ms epoch)
+  solved?: { moves: number; timeMs: number };
+}
+export type DailyLog = Record<string, DailyEntry>; // keyed by YYYY-MM-DD (local)
+
+const LOG_KEY = 'zenloops:dailylog';
+
+/** Local calendar date as YYYY-MM-DD. */
+export function dateKey(d = new Date()): string {
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}`;
+}
+
+/** Same seed for everyone on the same local date (FNV-1a over the date key). */
+export function dailySeed(key = dateKey()): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) { h ^= key.charCodeAt(i); h = Math.imul(h, 0x01000193) >>> 0; }
+  return h % 1e9;
+}
+
+export function loadDailyLog(): DailyLog {
+  try {
+    const raw = localStorage.getItem(LOG_KEY);
+    return raw ? (JSON.parse(raw) as DailyLog) : {};
+  } catch { return {}; }
+}
+export function saveDailyLog(log: DailyLog) {
+  localStorage.setItem(LOG_KEY, JSON.stringify(log));
+}
+
+/** Note that today's board was opened; keeps the original start time. */
+export function startDaily(key = dateKey()): DailyLog {
+  const log = loadDailyLog();
+  if (!log[key]) { log[key] = { startedAt: Date.now() }; saveDailyLog(log); }
+  return log;
+}
+
+/** Record a solve for `key` with the board's play time; the first solve of the day sticks. */
+export function finishDaily(moves: number, timeMs: number, key = dateKey()): DailyLog {
+  const log = loadDailyLog();
+  const entry = log[key] ?? { startedAt: Date.now() };
+  if (!entry.solved) {
+    entry.solved = { moves, timeMs };
+    log[key] = entry;
+    saveDailyLog(log);
+  }
+  return log;
+}
+
+function prevKey(key: string): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return dateKey(new Date(y, m - 1, d - 1));
+}
+
+/** Current streak counts back from today, or from yesterday if today isn't solved yet. */
+export function streaks(log: DailyLog, today = dateKey()): { current: number; best: number } {
+  const done = new Set(Object.keys(log).filter(k => log[k].solved));
+
+  let current = 0;
+  let k = done.has(today) ? today : prevKey(today);
+  while (done.has(k)) { current++; k = prevKey(k); }
+
+  let best = 0;
+  for (const day of done) {
+    if (done.has(prevKey(day))) continue; // only count runs from their first day
+    let len = 0, cur = day;
+    while (done.has(cur)) {
+      len++;
+      const [y, m, d] = cur.split('-').map(Number);
+      cur = dateKey(new Date(y, m - 1, d + 1));
+    }
+    best = Math.max(best, len);
+  }
+  return { current, best };
+}
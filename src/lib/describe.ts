@@ -0,0 +1,33 @@
+// src/lib/describe.ts
+// Words for tiles, for screen readers (TileView labels, the canvas board's live region).
+import type { Tile, TileType, Rot, Side, Topology } from './pathfind';
+import { tileSides } from './pathfind';
+
+export type LabelInfo = { tile: Tile; highlighted?: boolean; isStart?: boolean; isEnd?: boolean; hintRot?: Rot; topo?: Topology };
+
+const TYPE_NAMES: Record<TileType, string> = {
+  end: 'End', straight: 'Straight', corner: 'Corner', tee: 'Tee', cross: 'Cross',
+  hook: 'Sharp bend', bend: 'Wide bend', fan: 'Fan', y: 'Y-junction', block: 'Blocked tile',
+};
+const SIDE_NAMES: Record<Side, string> = {
+  N: 'North', NE: 'North-east', E: 'East', SE: 'South-east', S: 'South', SW: 'South-west', W: 'West', NW: 'North-west',
+};
+
+// "North", "North and East", "North, East and West"
+function opensText(t: Tile, topo?: Topology): string {
+  const names = tileSides(t, topo).map(s => SIDE_NAMES[s]);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? 'nothing';
+}
+
+/** What a screen reader says for a tile: its piece, open sides and state. */
+export function tileLabel({ tile, highlighted, isStart, isEnd, hintRot, topo }: LabelInfo): string {
+  if (tile.type === 'block') return TYPE_NAMES.block;
+  return [
+    `${TYPE_NAMES[tile.type]}, opens ${opensText(tile, topo)}`,
+    isStart && 'start A',
+    isEnd && 'end B',
+    tile.locked && 'locked',
+    highlighted && 'connected',
+    hintRot !== undefined && `hint: turn to open ${opensText({ ...tile, rot: hintRot }, topo)}`,
+  ].filter(Boolean).join(', ');
+}
@@ -0,0 +1,10 @@
+// src/lib/file.ts
+/** Save `text` as a file through a temporary download link. */
+export function downloadText(filename: string, text: string, type = 'application/json') {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url)); // some browsers start the download after click() returns
+}
@@ -0,0 +1,51 @@
+// src/lib/generate.ts
+// A playable board from a level config: generation plus its checks (minTaps, uniqueness)
+// and par. Runs in a Web Worker in the app, see generateInWorker.ts.
+import type { Grid, Ends, Cell, TopologyKind } from './pathfind';
+import { generateMaze, generateNetGrid, computePar, computeNetPar, cornerEnds, netSource } from './pathfind';
+import { TOPOLOGIES } from './topology';
+import type { GameMode, Difficulty } from './saves';
+import type { CustomConfig } from './custom';
+
+// minTaps: fewest moves the scramble must require; unique: only one solution
+export type BoardConfig = { rows: number; cols: number; blockFraction: number; minTaps: number; unique: boolean; ends?: Ends };
+// the topology goes by name: requests are posted to the worker, and a Topology carries functions
+export type GenerateRequest = BoardConfig & { mode: GameMode; seed: number; topology?: TopologyKind };
+// route: the maze's own A→B path (path boards only), for hints and par where the solver gives up
+export interface GeneratedBoard { grid: Grid; ends: Ends; par: number | null; route?: Cell[]; }
+
+// ----- levels -----
+// path: connect A to B. net: every tile in one network with no open ends (classic "Net").
+export type Generated = Exclude<Difficulty, 'campaign'>; // campaign boards come from level packs instead
+export const DIFFS: Record<Exclude<Generated, 'custom'>, BoardConfig> = {
+  easy:   { rows: 5, cols: 5, blockFraction: 0.08, minTaps: 6,  unique: false },
+  medium: { rows: 6, cols: 6, blockFraction: 0.14, minTaps: 10, unique: true },
+  hard:   { rows: 7, cols: 7, blockFraction: 0.20, minTaps: 14, unique: true },
+  daily:  { rows: 6, cols: 6, blockFraction: 0.16, minTaps: 12, unique: true }, // seed comes from the date, see lib/daily
+};
+
+export const isDifficulty = (v: unknown): v is Generated => typeof v === 'string' && (v in DIFFS || v === 'custom');
+
+// Custom path boards skip the scramble checks: they're exhaustive searches that get slow past ~10×10.
+// Net boards have no A/B, only keep blocks on custom boards, and are always checked for uniqueness.
+export function configFor(d: Generated, custom: CustomConfig, mode: GameMode): BoardConfig {
+  const base = d === 'custom' ? { ...custom, minTaps: 0, unique: false } : DIFFS[d];
+  if (mode === 'net') return { ...base, blockFraction: d === 'custom' ? base.blockFraction : 0, ends: undefined, unique: true };
+  return base;
+}
+
+/** Net boards have no A/B: their power source stands in for both. */
+export const netEnds = (grid: Grid): Ends => ({ start: netSource(grid), end: netSource(grid) });
+
+export function buildBoard(req: GenerateRequest): GeneratedBoard {
+  const topology = TOPOLOGIES[req.topology ?? 'square'];
+  if (req.mode === 'net') {
+    const grid = generateNetGrid(req.rows, req.cols, req.blockFraction, req.seed, { unique: req.unique, topology });
+    return { grid, ends: netEnds(grid), par: computeNetPar(grid, topology) };
+  }
+  const { grid, route } = generateMaze(req.rows, req.cols, req.blockFraction, req.seed, {
+    ends: req.ends, minTaps: req.minTaps, unique: req.unique, topology,
+  });
+  const ends = req.ends ?? cornerEnds(grid);
+  return { grid, ends, par: computePar(grid, ends, topology, route), route };
+}
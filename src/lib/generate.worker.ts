@@ -0,0 +1,7 @@
+// src/lib/generate.worker.ts
+import type { GenerateRequest } from './generate';
+import { buildBoard } from './generate';
+
+self.onmessage = (e: MessageEvent<{ id: number; req: GenerateRequest }>) => {
+  self.postMessage({ id: e.data.id, board: buildBoard(e.data.req) });
+};
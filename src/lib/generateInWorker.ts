@@ -0,0 +1,43 @@
+// src/lib/generateInWorker.ts
+// Runs buildBoard in a Web Worker (generate.worker.ts) so big boards don't freeze the page.
+// Without Worker support (tests, old browsers) it runs inline.
+import type { GenerateRequest, GeneratedBoard } from './generate';
+import { buildBoard } from './generate';
+
+type Pending = { resolve: (b: GeneratedBoard) => void; reject: (e: unknown) => void };
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, Pending>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL('./generate.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<{ id: number; board: GeneratedBoard }>) => {
+    pending.get(e.data.id)?.resolve(e.data.board);
+    pending.delete(e.data.id);
+  };
+  worker.onerror = (e) => stopWorker(new Error(e.message || 'Board generation failed'));
+  return worker;
+}
+
+// The generator can't be interrupted mid-run, so cancelling means dropping the worker.
+function stopWorker(reason: unknown) {
+  worker?.terminate();
+  worker = null;
+  for (const p of pending.values()) p.reject(reason);
+  pending.clear();
+}
+
+/** Generate off the main thread. Aborting `signal` stops the work and rejects with an AbortError. */
+export function generateBoard(req: GenerateRequest, signal?: AbortSignal): Promise<GeneratedBoard> {
+  if (signal?.aborted) return Promise.reject(new DOMException('Generation cancelled', 'AbortError'));
+  if (typeof Worker === 'undefined') return Promise.resolve().then(() => buildBoard(req));
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    signal?.addEventListener('abort', () => {
+      if (pending.has(id)) stopWorker(new DOMException('Generation cancelled', 'AbortError'));
+    }, { once: true });
+    getWorker().postMessage({ id, req });
+  });
+}
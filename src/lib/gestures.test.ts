@@ -0,0 +1,26 @@
+// src/lib/gestures.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Dir } from './pathfind';
+import { tileDirs } from './pathfind';
+import { swipeDir, rotFacing } from './gestures';
+
+describe('swipeDir', () => {
+  it('ignores short drags', () => {
+    expect(swipeDir(5, -4, 12)).toBeNull();
+  });
+
+  it('picks the dominant axis', () => {
+    expect(swipeDir(30, 10, 12)).toBe('E');
+    expect(swipeDir(-30, 29, 12)).toBe('W');
+    expect(swipeDir(3, 20, 12)).toBe('S');
+    expect(swipeDir(-8, -20, 12)).toBe('N');
+  });
+});
+
+describe('rotFacing', () => {
+  it('points an end piece at the swiped side', () => {
+    for (const dir of ['N', 'E', 'S', 'W'] as Dir[]) {
+      expect(tileDirs({ type: 'end', rot: rotFacing(dir) })).toEqual([dir]);
+    }
+  });
+});
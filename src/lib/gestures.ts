@@ -0,0 +1,22 @@
+// src/lib/gestures.ts
+// Pointer gestures on a tile: tap turns clockwise, right-click / two-finger tap turns back,
+// long-press pins the tile, and a swipe points the piece straight at a side.
+import type { Dir, Rot } from './pathfind';
+
+export type Gesture =
+  | { kind: 'rotate'; turn: 1 | -1 }
+  | { kind: 'swipe'; dir: Dir }
+  | { kind: 'lock' };
+
+export const LONG_PRESS_MS = 450;
+export const SWIPE_FRACTION = 0.3; // of the tile's width
+
+/** Side a drag of (dx, dy) heads towards, or null if it's too short to be a swipe. */
+export function swipeDir(dx: number, dy: number, minPx: number): Dir | null {
+  if (Math.hypot(dx, dy) < minPx) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'E' : 'W';
+  return dy > 0 ? 'S' : 'N';
+}
+
+/** Rotation that turns a piece's first arm (north at rot 0) to face `dir`. */
+export const rotFacing = (dir: Dir): Rot => (['N', 'E', 'S', 'W'] as const).indexOf(dir) as Rot;
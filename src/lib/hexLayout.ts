@@ -0,0 +1,25 @@
+// src/lib/hexLayout.ts
+// Screen layout for hex boards: pointy-top tiles in rows 3/4 of a tile apart, odd rows
+// shifted half a tile right (the "odd-r" layout lib/topology's neighbours assume).
+// `size` is a tile's height, corner to corner; its width is HEX_RATIO of that.
+
+export const HEX_RATIO = Math.sqrt(3) / 2;
+
+/** Top-left of tile (r, c)'s bounding box. */
+export function hexTileAt(r: number, c: number, size: number): { left: number; top: number } {
+  return { left: (c + (r & 1) / 2) * size * HEX_RATIO, top: r * size * 0.75 };
+}
+
+/** The whole board's bounding box. */
+export function hexBoardSize(rows: number, cols: number, size: number): { width: number; height: number } {
+  return { width: (cols + (rows > 1 ? 0.5 : 0)) * size * HEX_RATIO, height: size * (1 + 0.75 * (rows - 1)) };
+}
+
+/** The largest tile height that fits the board in maxW × maxH. */
+export function hexFit(rows: number, cols: number, maxW: number, maxH: number): number {
+  const { width, height } = hexBoardSize(rows, cols, 1);
+  return Math.min(maxW / width, maxH / height);
+}
+
+/** The direction side `s` faces, in degrees clockwise from east (NE = -60, E = 0, …, NW = 240). */
+export const hexSideAngle = (s: number) => -60 + 60 * s;
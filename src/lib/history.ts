@@ -0,0 +1,42 @@
+// src/lib/history.ts
+import type { Grid, Rot } from './pathfind';
+
+/** One rotation action: tile (r,c) went from `from` to `to`. */
+export interface Move { r: number; c: number; from: Rot; to: Rot; }
+export interface History { past: Move[]; future: Move[]; }
+
+export const emptyHistory = (): History => ({ past: [], future: [] });
+
+export function setRot(grid: Grid, r: number, c: number, rot: Rot): Grid {
+  const next = grid.map(row => row.slice());
+  next[r][c] = { ...grid[r][c], rot };
+  return next;
+}
+
+/** Push a new action; anything that was redoable is dropped. */
+export function record(h: History, m: Move): History {
+  return { past: [...h.past, m], future: [] };
+}
+
+export function undo(grid: Grid, h: History): { grid: Grid; history: History } | null {
+  const m = h.past[h.past.length - 1];
+  if (!m) return null;
+  return {
+    grid: setRot(grid, m.r, m.c, m.from),
+    history: { past: h.past.slice(0, -1), future: [m, ...h.future] },
+  };
+}
+
+export function redo(grid: Grid, h: History): { grid: Grid; history: History } | null {
+  const m = h.future[0];
+  if (!m) return null;
+  return {
+    grid: setRot(grid, m.r, m.c, m.to),
+    history: { past: [...h.past, m], future: h.future.slice(1) },
+  };
+}
+
+/** The board as it was before any recorded move. */
+export function rewind(grid: Grid, h: History): Grid {
+  return h.past.reduceRight((g, m) => setRot(g, m.r, m.c, m.from), grid);
+}
@@ -0,0 +1,37 @@
+// src/lib/level.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Grid } from './pathfind';
+import { isConnectedStartToEnd, computePar } from './pathfind';
+import { makeLevel, parseLevel, levelToJson, solvedGrid } from './level';
+
+// A(0,0) → right → down → B(1,1), drawn solved
+const drawn: Grid = [
+  [{ type: 'end', rot: 1 }, { type: 'corner', rot: 2 }],
+  [{ type: 'block', rot: 0 }, { type: 'end', rot: 0 }],
+];
+
+describe('level files', () => {
+  it('scramble the drawn board and price par from the result', () => {
+    const level = makeLevel({ name: ' Tiny ', author: '' }, drawn, undefined, undefined, 7);
+    expect(level.name).toBe('Tiny');
+    expect(level).not.toHaveProperty('author');
+    expect(isConnectedStartToEnd(level.grid, level.ends)).toBe(false);
+    expect(level.par).toBe(computePar(level.grid, level.ends));
+    expect(solvedGrid(level)).toEqual(drawn);
+  });
+
+  it('round-trip through JSON', () => {
+    const level = makeLevel({ name: 'Tiny', author: 'Sam' }, drawn, undefined, undefined, 3);
+    expect(parseLevel(levelToJson(level))).toEqual(level);
+  });
+
+  it('reject malformed files', () => {
+    const level = makeLevel({ name: 'Tiny' }, drawn);
+    expect(parseLevel('{')).toBeNull();
+    expect(parseLevel(JSON.stringify({ ...level, format: 'other' }))).toBeNull();
+    expect(parseLevel(JSON.stringify({ ...level, name: '  ' }))).toBeNull();
+    expect(parseLevel(JSON.stringify({ ...level, ends: { start: [0, 0], end: [2, 2] } }))).toBeNull();
+    expect(parseLevel(JSON.stringify({ ...level, solution: [[0, 1], [0]] }))).toBeNull();
+    expect(parseLevel(JSON.stringify({ ...level, par: 1.5 }))).toBeNull();
+  });
+});
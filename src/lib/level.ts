@@ -0,0 +1,91 @@
+// src/lib/level.ts
+// Hand-made levels: a JSON file holding the board as the player first sees it, plus
+// the orientation it was drawn in so the editor can reopen it.
+import type { Grid, Ends, Rot } from './pathfind';
+import { cornerEnds, computePar, pathCells, scrambleGrid } from './pathfind';
+import { isGrid, isCell } from './saves';
+
+export const LEVEL_FORMAT = 'zen-loops-level';
+export const LEVEL_VERSION = 1;
+
+export interface LevelFile {
+  format: typeof LEVEL_FORMAT;
+  v: typeof LEVEL_VERSION;
+  name: string;
+  author?: string;
+  grid: Grid;            // starting (scrambled) board
+  ends: Ends;
+  par: number | null;    // fewest moves from `grid`; null if it can't be solved
+  solution?: Rot[][];    // orientation the author drew it in
+}
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isRot = (v: unknown): v is Rot => v === 0 || v === 1 || v === 2 || v === 3;
+
+/** Check a parsed level; anything malformed is rejected rather than trusted. */
+export function validateLevel(v: unknown): LevelFile | null {
+  if (!isObj(v) || v.format !== LEVEL_FORMAT || v.v !== LEVEL_VERSION) return null;
+  if (typeof v.name !== 'string' || !v.name.trim() || (v.author !== undefined && typeof v.author !== 'string')) return null;
+  if (!isGrid(v.grid) || !isObj(v.ends) || !isCell(v.ends.start, v.grid) || !isCell(v.ends.end, v.grid)) return null;
+  if (v.par !== null && !(typeof v.par === 'number' && Number.isInteger(v.par) && v.par >= 0)) return null;
+  const grid = v.grid;
+  if (v.solution !== undefined && !(Array.isArray(v.solution) && v.solution.length === grid.length
+    && v.solution.every((row, r) => Array.isArray(row) && row.length === grid[r].length && row.every(isRot)))) return null;
+  return v as unknown as LevelFile;
+}
+
+export function parseLevel(text: string): LevelFile | null {
+  try { return validateLevel(JSON.parse(text)); } catch { return null; }
+}
+
+/**
+ * Make a level from a board drawn in its solved orientation: scramble it (unless a start
+ * board is given) and price par from the scrambled board, or along the drawn path where
+ * the board is too open to search.
+ */
+export function makeLevel(meta: { name: string; author?: string }, solved: Grid, ends = cornerEnds(solved), start?: Grid, seed?: number): LevelFile {
+  const strip = (g: Grid): Grid => g.map(row => row.map(t => ({ type: t.type, rot: t.rot }))); // no player locks
+  const grid = strip(start ?? scrambleGrid(solved, ends, seed));
+  return {
+    format: LEVEL_FORMAT, v: LEVEL_VERSION,
+    name: meta.name.trim() || 'Untitled', ...(meta.author?.trim() ? { author: meta.author.trim() } : {}),
+    grid, ends, par: computePar(grid, ends, undefined, pathCells(solved, ends)), solution: solved.map(row => row.map(t => t.rot)),
+  };
+}
+
+/** The drawn orientation, or the starting board for files without one. */
+export const solvedGrid = (level: LevelFile): Grid =>
+  level.solution ? level.grid.map((row, r) => row.map((t, c) => ({ ...t, rot: level.solution![r][c] }))) : level.grid;
+
+export const levelToJson = (level: LevelFile) => JSON.stringify(level, null, 2);
+
+// ----- editor draft -----
+// The board being edited is kept between visits, including an unfinished one.
+export interface EditorDraft { name: string; author: string; grid: Grid; ends: Ends; start: Grid | null; }
+
+const DRAFT_KEY = 'zenloops:editor-draft';
+
+/** All blocks except an end piece at each of A and B. */
+export function blankDraft(rows = 5, cols = 5): EditorDraft {
+  const ends: Ends = { start: [0, 0], end: [rows - 1, cols - 1] };
+  const grid: Grid = Array.from({ length: rows }, () => Array.from({ length: cols }, () => ({ type: 'block' as const, rot: 0 as const })));
+  grid[0][0] = { type: 'end', rot: 1 };
+  grid[rows - 1][cols - 1] = { type: 'end', rot: 3 };
+  return { name: '', author: '', grid, ends, start: null };
+}
+
+export function loadDraft(): EditorDraft {
+  try {
+    const d: unknown = JSON.parse(localStorage.getItem(DRAFT_KEY) ?? 'null');
+    if (isObj(d) && typeof d.name === 'string' && typeof d.author === 'string' && isGrid(d.grid)
+      && isObj(d.ends) && isCell(d.ends.start, d.grid) && isCell(d.ends.end, d.grid)
+      && (d.start === null || (isGrid(d.start) && d.start.length === d.grid.length && d.start[0].length === d.grid[0].length))) {
+      return d as unknown as EditorDraft;
+    }
+  } catch { /* fall through to a blank board */ }
+  return blankDraft();
+}
+
+export function saveDraft(d: EditorDraft) {
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(d));
+}
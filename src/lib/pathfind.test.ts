@@ -0,0 +1,348 @@
+// src/lib/pathfind.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Dir, Ends, Grid, Rot, Solution, Tile, TileType } from './pathfind';
+import {
+  tileDirs, connectedFromStart, isConnectedStartToEnd, pathStartToEnd, inferTypeRotFromDirs,
+  connectivity, updateConnectivity, pathIndexes, distancesFrom,
+  generateMaze, generateMazeGrid, solveRotations, routeSolution, cheapestSolution, countSolutions, computePar,
+  tapsToOpen, maskOf, cornerEnds, hasNoOpenEnds, isNetSolved, generateNetGrid, netSolutions, computeNetPar, tileSides,
+} from './pathfind';
+import type { Topology } from './topology';
+import { HEX, SQUARE, shapeOf } from './topology';
+
+const ROTS = [0, 1, 2, 3] as const;
+const TYPES: TileType[] = ['end', 'straight', 'corner', 'tee', 'cross', 'block'];
+const cw: Record<Dir, Dir> = { N: 'E', E: 'S', S: 'W', W: 'N' };
+const sorted = (ds: Dir[]) => [...ds].sort();
+
+// Compact board literal: one token per tile, e.g. "e2" = end rot 2, "x" = block
+const T: Record<string, TileType> = { e: 'end', s: 'straight', c: 'corner', t: 'tee', '+': 'cross', x: 'block' };
+function board(rows: string[]): Grid {
+  return rows.map(row => row.trim().split(/\s+/).map(tok => ({ type: T[tok[0]], rot: Number(tok[1] ?? 0) } as Tile)));
+}
+
+// A(0,0) → right → down → B(1,1), solved as written
+const SOLVED = board([
+  'e1 c2',
+  'x  e0',
+]);
+
+function applyRots(grid: Grid, rots: Tile['rot'][][]): Grid {
+  return grid.map((row, r) => row.map((t, c) => ({ ...t, rot: rots[r][c] })));
+}
+
+// True par by exhaustion: every simple A→B path, each tile on it priced by trying every rotation
+function brutePar(grid: Grid, topo: Topology = SQUARE, { start, end }: Ends = cornerEnds(grid)): number | null {
+  const n = topo.sides.length;
+  const price = (t: Tile, need: number) => {
+    let best = Infinity;
+    for (let k = 0; k < n; k++) {
+      if ((maskOf({ ...t, rot: ((t.rot + k) % n) as Rot }, topo) & need) !== need) continue;
+      best = Math.min(best, k === 0 ? 0 : n === 4 ? 1 : Math.min(k, n - k));
+    }
+    return best;
+  };
+  const seen = grid.map(row => row.map(() => false));
+  let best = Infinity;
+  const walk = (r: number, c: number, into: number, cost: number) => {
+    if (r === end[0] && c === end[1]) { best = Math.min(best, cost + price(grid[r][c], into)); return; }
+    seen[r][c] = true;
+    topo.steps(r).forEach(([dr, dc], s) => {
+      const nr = r + dr, nc = c + dc;
+      if (nr < 0 || nc < 0 || nr >= grid.length || nc >= grid[0].length || seen[nr][nc]) return;
+      const k = price(grid[r][c], into | (1 << s));
+      if (k < Infinity) walk(nr, nc, topo.back[s], cost + k);
+    });
+    seen[r][c] = false;
+  };
+  walk(start[0], start[1], 0, 0);
+  return best < Infinity ? best : null;
+}
+
+describe('tileDirs', () => {
+  it('opens the documented sides at rotation 0', () => {
+    expect(tileDirs({ type: 'end', rot: 0 })).toEqual(['N']);
+    expect(sorted(tileDirs({ type: 'straight', rot: 0 }))).toEqual(['N', 'S']);
+    expect(sorted(tileDirs({ type: 'corner', rot: 0 }))).toEqual(['E', 'N']);
+    expect(sorted(tileDirs({ type: 'tee', rot: 0 }))).toEqual(['E', 'N', 'W']);
+    expect(tileDirs({ type: 'cross', rot: 2 })).toHaveLength(4);
+    expect(tileDirs({ type: 'block', rot: 1 })).toEqual([]);
+  });
+
+  it('each rotation step turns every opening one side clockwise', () => {
+    for (const type of TYPES) for (const rot of ROTS) {
+      const base = tileDirs({ type, rot: 0 });
+      let turned = base;
+      for (let i = 0; i < rot; i++) turned = turned.map(d => cw[d]);
+      expect(sorted(tileDirs({ type, rot })), `${type} rot ${rot}`).toEqual(sorted(turned));
+    }
+  });
+});
+
+describe('inferTypeRotFromDirs', () => {
+  it('recovers type and orientation for every tile', () => {
+    for (const type of TYPES) for (const rot of ROTS) {
+      const dirs = tileDirs({ type, rot });
+      const got = inferTypeRotFromDirs(dirs);
+      expect(got.type).toBe(type);
+      expect(sorted(tileDirs(got))).toEqual(sorted(dirs));
+    }
+  });
+
+  it('ignores the order of the directions', () => {
+    expect(inferTypeRotFromDirs(['W', 'S'])).toEqual(inferTypeRotFromDirs(['S', 'W']));
+  });
+});
+
+describe('connectedFromStart', () => {
+  it('follows only matching openings', () => {
+    expect(connectedFromStart(SOLVED)).toEqual(new Set(['0,0', '0,1', '1,1']));
+    const broken = board([
+      'e1 c2',
+      'x  e1',
+    ]);
+    expect(connectedFromStart(broken)).toEqual(new Set(['0,0', '0,1']));
+    expect(isConnectedStartToEnd(broken)).toBe(false);
+  });
+
+  it('always contains the start, even when it leads nowhere', () => {
+    expect(connectedFromStart(board(['e0 s0', 's1 e0']))).toEqual(new Set(['0,0']));
+  });
+});
+
+describe('pathStartToEnd', () => {
+  it('returns the cells from A to B when connected', () => {
+    expect(pathStartToEnd(SOLVED)).toEqual(new Set(['0,0', '0,1', '1,1']));
+  });
+
+  it('leaves out connected side branches', () => {
+    const g = board([
+      'e1 t2 e3',
+      'x  c0 e3',
+    ]);
+    expect(connectedFromStart(g).has('0,2')).toBe(true);
+    expect(pathStartToEnd(g)).toEqual(new Set(['0,0', '0,1', '1,1', '1,2']));
+  });
+
+  it('is empty when A and B are not connected', () => {
+    expect(pathStartToEnd(board(['e1 c0', 'x e0'])).size).toBe(0);
+  });
+});
+
+describe('indexed connectivity', () => {
+  it('lists the path in order from A to B', () => {
+    expect(pathIndexes(SOLVED)).toEqual([0, 1, 3]);
+    expect(pathIndexes(board(['e1 c0', 'x e0']))).toEqual([]);
+  });
+
+  it('counts steps out from the start, -1 where pipes do not reach', () => {
+    expect(Array.from(distancesFrom(SOLVED))).toEqual([0, 1, -1, 2]);
+    expect(Array.from(distancesFrom(board(['e1 c0', 'x e0'])))).toEqual([0, -1, -1, -1]);
+  });
+
+  it('updates after single turns the same as a fresh search', () => {
+    const g0 = generateMazeGrid(9, 9, 0.1, 77);
+    let grid = g0, conn = connectivity(grid);
+    let seed = 5;
+    const rnd = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    for (let i = 0; i < 300; i++) {
+      const r = Math.floor(rnd() * 9), c = Math.floor(rnd() * 9);
+      grid = grid.map(row => row.slice());
+      grid[r][c] = { ...grid[r][c], rot: ((grid[r][c].rot + 1) % 4) as Tile['rot'] };
+      conn = updateConnectivity(conn, grid);
+      const fresh = connectivity(grid);
+      expect(conn.size, `step ${i}`).toBe(fresh.size);
+      expect(conn.reach).toEqual(fresh.reach);
+    }
+  });
+});
+
+describe('solver', () => {
+  it('finds rotations that connect A to B', () => {
+    const g = board([
+      'e0 c0',
+      'x  e2',
+    ]);
+    const sol = solveRotations(g) as Solution;
+    expect(sol.path).toEqual([[0, 0], [0, 1], [1, 1]]);
+    expect(isConnectedStartToEnd(applyRots(g, sol.rots))).toBe(true);
+  });
+
+  it('reports unsolvable boards', () => {
+    expect(solveRotations(board(['e0 x', 'x e0']))).toBeNull();
+    expect(solveRotations(board(['e0 s0', 'x e0']))).toBeNull(); // a straight can't turn the corner
+  });
+
+  it('prices par by the cheapest target, counting symmetric pieces once', () => {
+    expect(computePar(SOLVED)).toBe(0);
+    // A: 1 tap (N→E); straight: already E-W; B: one swipe (E→W)
+    expect(computePar(board(['e0 s1 e1']))).toBe(2);
+    expect(computePar(board(['e1 s3 e3']))).toBe(0);
+  });
+
+  it('prices a turn either way round, and any swipe on square boards, as one move', () => {
+    const end = (rot: Rot): Tile => ({ type: 'end', rot });
+    expect(tapsToOpen(end(1), 1)).toEqual({ rot: 0, taps: 1 }); // 3 clockwise, 1 back
+    expect(tapsToOpen(end(0), 4)).toEqual({ rot: 2, taps: 1 }); // a swipe south
+    expect(tapsToOpen(end(5), 1, HEX)).toEqual({ rot: 0, taps: 1 });
+    expect(tapsToOpen(end(0), 1 << 3, HEX)).toEqual({ rot: 3, taps: 3 }); // half a turn is the most a hex tile needs
+    expect(tapsToOpen(end(2), 0)).toEqual({ rot: 2, taps: 0 });
+  });
+
+  it('says when it gave up on a board rather than calling it unsolvable', () => {
+    const { grid, route } = generateMaze(30, 30, 0, 8); // too open to search within the cap
+    expect(solveRotations(grid)).toBe('capped');
+    expect(computePar(grid)).toBeNull();
+    const sol = routeSolution(grid, route);
+    expect(sol.path[0]).toEqual([0, 0]);
+    expect(isConnectedStartToEnd(applyRots(grid, sol.rots))).toBe(true);
+    expect(computePar(grid, undefined, undefined, route)).toBe(sol.taps);
+  });
+
+  it('par is the true minimum on small square and hex boards', () => {
+    for (const topology of [SQUARE, HEX]) {
+      for (let seed = 1; seed <= 150; seed++) {
+        const { grid } = generateMaze(4, 4, 0.1, seed, { topology });
+        expect(computePar(grid, undefined, topology), `${topology.kind} seed ${seed}`).toBe(brutePar(grid, topology));
+      }
+    }
+  });
+
+  it('counts distinct paths', () => {
+    expect(countSolutions(SOLVED)).toBe(1);
+    expect(countSolutions(board(['e0 + ', '+  e0']), 10)).toBe(2);
+  });
+});
+
+describe('generateMazeGrid (seeded properties)', () => {
+  const sizes: [number, number, number][] = [[3, 3, 0], [4, 6, 0.1], [5, 5, 0.08], [6, 6, 0.14], [7, 7, 0.2], [8, 5, 0.2]];
+
+  it('is deterministic for a seed', () => {
+    expect(generateMazeGrid(6, 6, 0.14, 1234)).toEqual(generateMazeGrid(6, 6, 0.14, 1234));
+  });
+
+  for (const [rows, cols, blocks] of sizes) {
+    it(`${rows}×${cols} boards keep A/B open and are solvable`, () => {
+      for (let seed = 1; seed <= 60; seed++) {
+        const g = generateMazeGrid(rows, cols, blocks, seed);
+        expect(g).toHaveLength(rows);
+        expect(g[0]).toHaveLength(cols);
+        expect(g[0][0].type, `seed ${seed}`).not.toBe('block');
+        expect(g[rows - 1][cols - 1].type, `seed ${seed}`).not.toBe('block');
+        const sol = solveRotations(g);
+        expect(sol, `seed ${seed}`).not.toBeNull();
+        expect(isConnectedStartToEnd(applyRots(g, (sol as Solution).rots))).toBe(true);
+      }
+    });
+  }
+
+  it('places A and B where asked, on non-square boards too', () => {
+    const ends: Ends = { start: [2, 1], end: [0, 8] };
+    for (let seed = 1; seed <= 40; seed++) {
+      const g = generateMazeGrid(5, 9, 0.15, seed, { ends });
+      expect(g[2][1].type).toBe('end');
+      expect(g[0][8].type).toBe('end');
+      const sol = solveRotations(g, ends);
+      expect(sol, `seed ${seed}`).not.toBeNull();
+      expect((sol as Solution).path[0]).toEqual([2, 1]);
+      expect(isConnectedStartToEnd(applyRots(g, (sol as Solution).rots), ends)).toBe(true);
+    }
+  });
+
+  it('honours minTaps and unique when asked', () => {
+    for (let seed = 1; seed <= 30; seed++) {
+      const g = generateMazeGrid(7, 7, 0.2, seed, { minTaps: 14, unique: true });
+      expect((cheapestSolution(g) as Solution).taps, `seed ${seed}`).toBeGreaterThanOrEqual(14);
+      expect(countSolutions(g, 2), `seed ${seed}`).toBe(1);
+    }
+  });
+});
+
+describe('Net mode', () => {
+  it('spots open ends and split networks', () => {
+    // four corners closing a small loop
+    expect(hasNoOpenEnds(board(['c1 c2', 'c0 c3']))).toBe(true);
+    expect(isNetSolved(board(['c1 c2', 'c0 c3']))).toBe(true);
+    expect(hasNoOpenEnds(board(['c1 c2', 'c0 c2']))).toBe(false);
+    // two separate end-to-end pairs: nothing dangles, but it isn't one network
+    expect(isNetSolved(board(['e1 e3', 'e1 e3']))).toBe(false);
+  });
+
+  it('prices par by the cheapest of every solution, not the first found', () => {
+    // three ways to close the middle: the search meets a 15-move one first, the cheapest takes 13
+    const g = board([
+      'c2 s3 t2 s0 c1',
+      't2 t0 t0 e2 s1',
+      's0 c3 t0 t3 t0',
+      't1 s1 t2 t3 t0',
+      'c0 s3 t0 c3 e2',
+    ]);
+    expect(netSolutions(g, 10)).toHaveLength(3);
+    expect(computeNetPar(g)).toBe(13);
+  });
+
+  it('generated boards are single spanning networks with one solution', () => {
+    for (const [rows, cols, blocks] of [[5, 5, 0], [6, 8, 0.1], [7, 7, 0]] as const) {
+      for (let seed = 1; seed <= 20; seed++) {
+        const g = generateNetGrid(rows, cols, blocks, seed, { unique: true });
+        expect(g[Math.floor((rows - 1) / 2)][Math.floor((cols - 1) / 2)].type).not.toBe('block');
+        const sols = netSolutions(g, 2);
+        expect(sols, `${rows}×${cols} seed ${seed}`).toHaveLength(1);
+        expect(isNetSolved(applyRots(g, sols[0]))).toBe(true);
+        expect(computeNetPar(g)).toBeGreaterThan(0);
+      }
+    }
+  });
+});
+
+describe('hex boards', () => {
+  it('neighbours face each other back', () => {
+    for (const r of [0, 1, 2, 3]) for (let side = 0; side < 6; side++) {
+      const [dr, dc] = HEX.steps(r)[side];
+      const back = HEX.steps(r + dr)[(side + 3) % 6];
+      expect([dr + back[0], dc + back[1]], `row ${r} ${HEX.sides[side]}`).toEqual([0, 0]);
+    }
+  });
+
+  it('turns pieces a sixth at a time and knows every one- and two-arm shape', () => {
+    expect(tileSides({ type: 'bend', rot: 0 }, HEX)).toEqual(['NE', 'SE']);
+    expect(tileSides({ type: 'bend', rot: 5 }, HEX)).toEqual(['E', 'NW']);
+    expect(tileSides({ type: 'y', rot: 1 }, HEX)).toEqual(['E', 'SW', 'NW']);
+    for (let a = 0; a < 6; a++) for (let b = a + 1; b < 6; b++) expect(shapeOf(HEX, (1 << a) | (1 << b))).not.toBeNull();
+    expect(shapeOf(HEX, 0b001011)).toBeNull(); // no piece opens NE, E and SW
+    expect(shapeOf(SQUARE, 0b1011)).toEqual({ type: 'tee', rot: 0 });
+  });
+
+  it('A→B boards are solvable, unique when asked, and solved with the shared solver', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const g = generateMazeGrid(6, 6, 0.15, seed, { topology: HEX, minTaps: 8, unique: true });
+      expect(g.flat().every(t => HEX.types.includes(t.type))).toBe(true);
+      const sol = solveRotations(g, undefined, HEX);
+      expect(sol, `seed ${seed}`).not.toBeNull();
+      expect(isConnectedStartToEnd(applyRots(g, (sol as Solution).rots), undefined, HEX)).toBe(true);
+      expect(countSolutions(g, 2, undefined, HEX), `seed ${seed}`).toBe(1);
+      expect(computePar(g, undefined, HEX)).toBeGreaterThanOrEqual(8);
+    }
+  });
+
+  it('prices par at the exact minimum over every rotation', () => {
+    const cases: [number, number, number, number][] = [ // size, seed, minTaps, par
+      [4, 80, 0, 8], [4, 116, 0, 5], [6, 1, 8, 26], [6, 2, 8, 16], [6, 4, 8, 21], [6, 6, 8, 13],
+    ];
+    for (const [size, seed, minTaps, par] of cases) {
+      const g = generateMazeGrid(size, size, size === 4 ? 0.1 : 0.15, seed, { topology: HEX, minTaps, unique: minTaps > 0 });
+      expect(brutePar(g, HEX), `seed ${seed}`).toBe(par);
+      expect(computePar(g, undefined, HEX), `seed ${seed}`).toBe(par);
+    }
+  });
+
+  it('Net boards are single networks with one solution', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const g = generateNetGrid(5, 6, 0, seed, { unique: true, topology: HEX });
+      const sols = netSolutions(g, 2, HEX);
+      expect(sols, `seed ${seed}`).toHaveLength(1);
+      expect(isNetSolved(applyRots(g, sols[0]), HEX)).toBe(true);
+      expect(computeNetPar(g, HEX)).toBeGreaterThan(0);
+    }
+  });
+});
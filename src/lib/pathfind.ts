@@ -1,166 +1,744 @@
 // src/lib/pathfind.ts
-export type TileType = 'end' | 'straight' | 'corner' | 'tee' | 'cross' | 'block';
-export type Dir = 'N' | 'E' | 'S' | 'W';
-export interface Tile { type: TileType; rot: 0 | 1 | 2 | 3; }
+// One engine for square and hex boards: everything below works on side bitmasks and
+// neighbour steps from a Topology (see lib/topology), square unless told otherwise.
+import type { Topology, Dir, Side } from './topology';
+import { SQUARE, shapeOf } from './topology';
+
+export type { Dir, HexDir, Side, Topology, TopologyKind } from './topology';
+// square pieces: corner, tee, cross; hex pieces: hook (60°), bend (120°), fan, y; both: end, straight, block
+export type TileType = 'end' | 'straight' | 'corner' | 'tee' | 'cross' | 'hook' | 'bend' | 'fan' | 'y' | 'block';
+export type Rot = 0 | 1 | 2 | 3 | 4 | 5; // clockwise turns; square boards use 0–3
+export interface Tile { type: TileType; rot: Rot; locked?: boolean; } // locked: player pinned it (long-press)
 export type Grid = Tile[][];
+export type Cell = [number, number];
+/** Where A and B sit on a board. */
+export interface Ends { start: Cell; end: Cell; }
 
-const dirVec: Record<Dir, [number, number]> = {
-  N: [-1, 0], E: [0, 1], S: [1, 0], W: [0, -1],
-};
-const opp: Record<Dir, Dir> = { N: 'S', S: 'N', E: 'W', W: 'E' };
-
-const mapDirs: Record<TileType, Dir[][]> = {
-  end:      [['N'], ['E'], ['S'], ['W']],
-  straight: [['N','S'], ['E','W'], ['N','S'], ['E','W']],
-  corner:   [['N','E'], ['E','S'], ['S','W'], ['W','N']],
-  tee:      [['N','E','W'], ['E','S','N'], ['S','W','E'], ['W','N','S']],
-  cross:    [['N','E','S','W'], ['N','E','S','W'], ['N','E','S','W'], ['N','E','S','W']],
-  block:    [[], [], [], []],
-};
+/** The classic layout: A top-left, B bottom-right. */
+export function cornerEnds(grid: Grid): Ends {
+  return { start: [0, 0], end: [grid.length - 1, (grid[0]?.length ?? 1) - 1] };
+}
+
+/** A tile's openings as a side bitmask; pieces from another topology count as closed. */
+export const maskOf = (t: Tile, topo: Topology = SQUARE): number => topo.masks[t.type]?.[t.rot] ?? 0;
+
+/** The sides a tile opens on, clockwise from the first. */
+export function tileSides(t: Tile, topo: Topology = SQUARE): Side[] {
+  const m = maskOf(t, topo);
+  return topo.sides.filter((_, s) => m & (1 << s));
+}
+export const tileDirs = (t: Tile): Dir[] => tileSides(t) as Dir[];
 
-export function tileDirs(t: Tile): Dir[] { return mapDirs[t.type][t.rot]; }
 function inBounds(r: number, c: number, R: number, C: number): boolean { return r >= 0 && c >= 0 && r < R && c < C; }
+const turnsOf = (topo: Topology) => topo.sides.length;
+const oppSide = (topo: Topology, s: number) => (s + turnsOf(topo) / 2) % turnsOf(topo);
 
-export function connectedFromStart(grid: Grid): Set<string> {
-  const R = grid.length, C = grid[0]?.length ?? 0;
-  const seen = new Set<string>();
-  const q: [number, number][] = [[0, 0]];
-  while (q.length) {
-    const [r, c] = q.shift()!;
-    const key = `${r},${c}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    for (const d of tileDirs(grid[r][c])) {
-      const [dr, dc] = dirVec[d];
-      const nr = r + dr, nc = c + dc;
-      if (!inBounds(nr, nc, R, C)) continue;
-      if (tileDirs(grid[nr][nc]).includes(opp[d])) q.push([nr, nc]);
+// ---------- INDEXED CONNECTIVITY (cell index = r * cols + c; openings as side bitmasks) ----------
+
+/** The region joined to `start` on the current rotations, as a flag per cell. */
+export interface Connectivity {
+  grid: Grid;           // the board it was computed for
+  topo: Topology;
+  start: Cell;
+  cols: number;
+  reach: Uint8Array;    // 1 = connected to start
+  size: number;
+}
+
+// Breadth-first from queue[0..tail), marking newly reached cells; returns how many were added.
+function flood(grid: Grid, topo: Topology, cols: number, reach: Uint8Array, queue: Int32Array, tail: number): number {
+  const rows = grid.length, n = turnsOf(topo);
+  let head = 0, added = 0;
+  while (head < tail) {
+    const i = queue[head++], r = (i / cols) | 0, c = i - r * cols;
+    const m = maskOf(grid[r][c], topo), steps = topo.steps(r);
+    for (let s = 0; s < n; s++) {
+      const nr = r + steps[s][0], nc = c + steps[s][1];
+      if (!(m & (1 << s)) || nr < 0 || nc < 0 || nr >= rows || nc >= cols) continue;
+      const j = nr * cols + nc;
+      if (reach[j] || !(maskOf(grid[nr][nc], topo) & topo.back[s])) continue;
+      reach[j] = 1; queue[tail++] = j; added++;
     }
   }
-  return seen;
+  return added;
 }
 
-export function isConnectedStartToEnd(grid: Grid): boolean {
-  const R = grid.length, C = grid[0]?.length ?? 0;
-  const seen = connectedFromStart(grid);
-  return seen.has(`${R - 1},${C - 1}`);
+export function connectivity(grid: Grid, start: Cell = [0, 0], topo: Topology = SQUARE): Connectivity {
+  const cols = grid[0]?.length ?? 0;
+  const reach = new Uint8Array(grid.length * cols), queue = new Int32Array(reach.length);
+  const s = start[0] * cols + start[1];
+  reach[s] = 1; queue[0] = s;
+  return { grid, topo, start, cols, reach, size: 1 + flood(grid, topo, cols, reach, queue, 1) };
 }
 
-/** Find the unique path from start (0,0) to end (R-1,C-1) in the CURRENT rotations. */
-export function pathStartToEnd(grid: Grid): Set<string> {
-  const R = grid.length, C = grid[0]?.length ?? 0;
-  const endKey = `${R - 1},${C - 1}`;
-  const parent = new Map<string, string | null>();
-  const q: [number, number][] = [[0, 0]];
-  parent.set('0,0', null);
-
-  while (q.length) {
-    const [r, c] = q.shift()!;
-    const here = `${r},${c}`;
-    if (here === endKey) break;
-
-    for (const d of tileDirs(grid[r][c])) {
-      const [dr, dc] = dirVec[d];
-      const nr = r + dr, nc = c + dc;
-      if (!inBounds(nr, nc, R, C)) continue;
-      if (!tileDirs(grid[nr][nc]).includes(opp[d])) continue;
-      const nk = `${nr},${nc}`;
-      if (!parent.has(nk)) {
-        parent.set(nk, here);
+/**
+ * Connectivity after a change to `prev.grid`. If the only tile whose openings changed was
+ * outside the region, the region can only grow, so it's extended from that tile. Anything
+ * else (a connected tile turned, several tiles changed, another board) is searched afresh.
+ */
+export function updateConnectivity(prev: Connectivity | null, grid: Grid, start: Cell = [0, 0], topo: Topology = SQUARE): Connectivity {
+  const cols = grid[0]?.length ?? 0;
+  if (!prev || prev.topo !== topo || prev.cols !== cols || prev.grid.length !== grid.length
+    || prev.start[0] !== start[0] || prev.start[1] !== start[1]) return connectivity(grid, start, topo);
+
+  let changed = -1;
+  for (let r = 0; r < grid.length; r++) {
+    if (grid[r] === prev.grid[r]) continue;
+    for (let c = 0; c < cols; c++) {
+      if (maskOf(grid[r][c], topo) === maskOf(prev.grid[r][c], topo)) continue; // e.g. a lock, or a straight turned twice
+      if (changed >= 0) return connectivity(grid, start, topo);
+      changed = r * cols + c;
+    }
+  }
+  if (changed < 0) return { ...prev, grid };
+  if (prev.reach[changed]) return connectivity(grid, start, topo);
+
+  const r = (changed / cols) | 0, c = changed - r * cols, m = maskOf(grid[r][c], topo);
+  const meets = topo.steps(r).some(([dr, dc], s) => {
+    const nr = r + dr, nc = c + dc;
+    return (m & (1 << s)) && inBounds(nr, nc, grid.length, cols) && prev.reach[nr * cols + nc]
+      && (maskOf(grid[nr][nc], topo) & topo.back[s]);
+  });
+  if (!meets) return { ...prev, grid };
+  const reach = prev.reach.slice(), queue = new Int32Array(reach.length);
+  reach[changed] = 1; queue[0] = changed;
+  return { grid, topo, start, cols, reach, size: prev.size + 1 + flood(grid, topo, cols, reach, queue, 1) };
+}
+
+/** Cell indexes from start to end on the current rotations (breadth-first, so the shortest), or [] if they don't meet. */
+export function pathIndexes(grid: Grid, ends = cornerEnds(grid), topo: Topology = SQUARE): number[] {
+  const rows = grid.length, cols = grid[0]?.length ?? 0, n = turnsOf(topo);
+  const parent = new Int32Array(rows * cols).fill(-1), queue = new Int32Array(rows * cols);
+  const s = ends.start[0] * cols + ends.start[1], e = ends.end[0] * cols + ends.end[1];
+  parent[s] = s; queue[0] = s;
+  for (let head = 0, tail = 1; head < tail && parent[e] < 0; head++) {
+    const i = queue[head], r = (i / cols) | 0, c = i - r * cols;
+    const m = maskOf(grid[r][c], topo), steps = topo.steps(r);
+    for (let s = 0; s < n; s++) {
+      const nr = r + steps[s][0], nc = c + steps[s][1];
+      if (!(m & (1 << s)) || !inBounds(nr, nc, rows, cols)) continue;
+      const j = nr * cols + nc;
+      if (parent[j] >= 0 || !(maskOf(grid[nr][nc], topo) & topo.back[s])) continue;
+      parent[j] = i; queue[tail++] = j;
+    }
+  }
+  if (parent[e] < 0) return [];
+  const path = [e];
+  while (path[path.length - 1] !== s) path.push(parent[path[path.length - 1]]);
+  return path.reverse();
+}
+
+/** Steps from `start` along joined pipes to every cell (breadth-first), -1 where it doesn't reach. */
+export function distancesFrom(grid: Grid, start: Cell = [0, 0], topo: Topology = SQUARE): Int32Array {
+  const rows = grid.length, cols = grid[0]?.length ?? 0, n = turnsOf(topo);
+  const dist = new Int32Array(rows * cols).fill(-1), queue = new Int32Array(rows * cols);
+  const s = start[0] * cols + start[1];
+  dist[s] = 0; queue[0] = s;
+  for (let head = 0, tail = 1; head < tail; head++) {
+    const i = queue[head], r = (i / cols) | 0, c = i - r * cols;
+    const m = maskOf(grid[r][c], topo), steps = topo.steps(r);
+    for (let k = 0; k < n; k++) {
+      const nr = r + steps[k][0], nc = c + steps[k][1];
+      if (!(m & (1 << k)) || !inBounds(nr, nc, rows, cols)) continue;
+      const j = nr * cols + nc;
+      if (dist[j] >= 0 || !(maskOf(grid[nr][nc], topo) & topo.back[k])) continue;
+      dist[j] = dist[i] + 1; queue[tail++] = j;
+    }
+  }
+  return dist;
+}
+
+const keysOf = (cols: number, idxs: Iterable<number>) => new Set(Array.from(idxs, i => `${(i / cols) | 0},${i % cols}`));
+
+/** Cells joined to `start`, as "r,c" keys. */
+export function connectedFromStart(grid: Grid, start: Cell = [0, 0], topo: Topology = SQUARE): Set<string> {
+  const { reach, cols } = connectivity(grid, start, topo);
+  return keysOf(cols, reach.reduce<number[]>((out, v, i) => (v && out.push(i), out), []));
+}
+
+export function isConnectedStartToEnd(grid: Grid, ends = cornerEnds(grid), topo: Topology = SQUARE): boolean {
+  const { reach, cols } = connectivity(grid, ends.start, topo);
+  return reach[ends.end[0] * cols + ends.end[1]] === 1;
+}
+
+/** Find the path from start to end (default: the corners) in the CURRENT rotations, as "r,c" keys. */
+export function pathStartToEnd(grid: Grid, ends = cornerEnds(grid), topo: Topology = SQUARE): Set<string> {
+  return keysOf(grid[0]?.length ?? 0, pathIndexes(grid, ends, topo));
+}
+
+// ---------- ROTATION SOLVER (propagation + backtracking) ----------
+export interface Solution {
+  rots: Rot[][];   // target rotation per tile; tiles off the path keep their current rot
+  path: Cell[];    // ordered cells from A to B
+  taps: number;    // moves needed to reach `rots` from the current rotations (see tapsToOpen)
+}
+
+/** True if `t` already opens on every side that `target` opens on. */
+export function rotSatisfies(t: Tile, target: Rot, topo: Topology = SQUARE): boolean {
+  return maskOf(t, topo) === maskOf({ ...t, rot: target }, topo);
+}
+
+/**
+ * Fewest moves that turn `t` to open on every side in the `need` bitmask; null if no rotation does.
+ * A move is a tap either way round, so k turns clockwise cost min(k, n − k); on square boards a
+ * swipe points the tile at any rotation, so every turn costs one.
+ */
+export function tapsToOpen(t: Tile, need: number, topo: Topology = SQUARE): { rot: Rot; taps: number } | null {
+  const n = turnsOf(topo);
+  let best: { rot: Rot; taps: number } | null = null;
+  for (let k = 0; k < n; k++) {
+    const rot = ((t.rot + k) % n) as Rot;
+    if ((maskOf({ ...t, rot }, topo) & need) !== need) continue;
+    const taps = k === 0 ? 0 : n === 4 ? 1 : Math.min(k, n - k);
+    if (!best || taps < best.taps) best = { rot, taps };
+  }
+  return best;
+}
+
+type Step = { r: number; c: number; rot: Rot; taps: number };
+type Walk = {
+  // called with every complete A→B path; return true to stop the search
+  onPath: (steps: Step[], cost: number) => boolean;
+  // paths whose running cost reaches this are abandoned (branch and bound)
+  bound?: () => number;
+};
+// Cap on DFS nodes so open boards (many crosses, few blocks) can't hang the caller;
+// past it the search just stops, so "cheapest" becomes "cheapest found".
+const MAX_NODES = 20_000;
+
+/** A solution; null when there is none; 'capped' when the search hit its cap before finding one. */
+export type SolveResult = Solution | 'capped' | null;
+
+/**
+ * Enumerate simple A→B paths the tiles could be turned into.
+ * Dead ends are pruned first (a cell on a path needs two usable neighbours it can open to,
+ * A and B need one), then a DFS extends the path, trying the cheapest exits first and
+ * backing out as soon as B can no longer be reached around the path so far.
+ * Returns true if the search was cut short by MAX_NODES.
+ */
+function walkPaths(grid: Grid, ends: Ends, walk: Walk, topo: Topology): boolean {
+  const R = grid.length, C = grid[0]?.length ?? 0, n = turnsOf(topo);
+  if (!R || !C) return false;
+  const [[sr, sc], [er, ec]] = [ends.start, ends.end];
+  const isTerminal = (r: number, c: number) => (r === sr && c === sc) || (r === er && c === ec);
+  // every piece but a block can turn an arm to any side
+  const canOpen = (r: number, c: number) => maskOf({ ...grid[r][c], rot: 0 }, topo) !== 0;
+  const next = (r: number, c: number, s: number): Cell => [r + topo.steps(r)[s][0], c + topo.steps(r)[s][1]];
+
+  // propagation: repeatedly drop cells that can't sit on any A→B path
+  const usable = grid.map((row, r) => row.map((t, c) => canOpen(r, c) && (isTerminal(r, c) || t.type !== 'end')));
+  const links = (r: number, c: number) => topo.sides.filter((_, s) => {
+    const [nr, nc] = next(r, c, s);
+    return inBounds(nr, nc, R, C) && usable[nr][nc];
+  });
+  for (let changed = true; changed;) {
+    changed = false;
+    for (let r = 0; r < R; r++) for (let c = 0; c < C; c++) {
+      if (!usable[r][c]) continue;
+      if (links(r, c).length < (isTerminal(r, c) ? 1 : 2)) { usable[r][c] = false; changed = true; }
+    }
+  }
+  if (!usable[sr][sc] || !usable[er][ec]) return false;
+
+  // backtracking: extend the path one cell at a time, entering each cell from side `from` (-1 at A)
+  const onPath = grid.map(row => row.map(() => false));
+  const steps: Step[] = [];
+  let nodes = 0;
+
+  const canReachEnd = (r: number, c: number): boolean => {
+    const seen = grid.map(row => row.map(() => false));
+    const q: Cell[] = [[r, c]];
+    seen[r][c] = true;
+    for (let i = 0; i < q.length; i++) {
+      const [qr, qc] = q[i];
+      if (qr === er && qc === ec) return true;
+      for (let s = 0; s < n; s++) {
+        const [nr, nc] = next(qr, qc, s);
+        if (!inBounds(nr, nc, R, C) || seen[nr][nc] || onPath[nr][nc] || !usable[nr][nc]) continue;
+        seen[nr][nc] = true;
         q.push([nr, nc]);
       }
     }
-  }
+    return false;
+  };
+
+  const extend = (r: number, c: number, from: number, cost: number): boolean => {
+    if (++nodes > MAX_NODES) return true;
+    if (walk.bound && cost >= walk.bound()) return false;
+    if (!canReachEnd(r, c)) return false;
+    onPath[r][c] = true;
+    let stop = false;
+    if (r === er && c === ec) {
+      const fit = tapsToOpen(grid[r][c], from >= 0 ? 1 << from : 0, topo)!;
+      if (!walk.bound || cost + fit.taps < walk.bound()) { // B's own turn counts toward the bound too
+        steps.push({ r, c, ...fit });
+        stop = walk.onPath(steps, cost + fit.taps);
+        steps.pop();
+      }
+    } else {
+      const exits: { s: number; nr: number; nc: number; fit: { rot: Rot; taps: number } }[] = [];
+      for (let s = 0; s < n; s++) {
+        if (s === from) continue;
+        const [nr, nc] = next(r, c, s);
+        if (!inBounds(nr, nc, R, C) || !usable[nr][nc] || onPath[nr][nc]) continue;
+        const fit = tapsToOpen(grid[r][c], (from >= 0 ? 1 << from : 0) | (1 << s), topo);
+        if (fit) exits.push({ s, nr, nc, fit });
+      }
+      exits.sort((x, y) => x.fit.taps - y.fit.taps);
+      for (const { s, nr, nc, fit } of exits) {
+        steps.push({ r, c, ...fit });
+        stop = extend(nr, nc, oppSide(topo, s), cost + fit.taps);
+        steps.pop();
+        if (stop) break;
+      }
+    }
+    onPath[r][c] = false;
+    return stop;
+  };
+  extend(sr, sc, -1, 0);
+  return nodes > MAX_NODES;
+}
+
+function toSolution(grid: Grid, steps: Step[], taps: number): Solution {
+  const rots: Rot[][] = grid.map(row => row.map(t => t.rot));
+  for (const s of steps) rots[s.r][s.c] = s.rot;
+  return { rots, path: steps.map(s => [s.r, s.c] as Cell), taps };
+}
+
+/** Find rotations that connect A to B (see SolveResult). Prefers few taps, not the fewest. */
+export function solveRotations(grid: Grid, ends = cornerEnds(grid), topo: Topology = SQUARE): SolveResult {
+  let found: Solution | null = null;
+  const capped = walkPaths(grid, ends, { onPath: (steps, cost) => { found = toSolution(grid, steps, cost); return true; } }, topo);
+  return found ?? (capped ? 'capped' : null);
+}
+
+/** The cheapest solution in moves (exhaustive up to the search cap, then the cheapest found). */
+export function cheapestSolution(grid: Grid, ends = cornerEnds(grid), topo: Topology = SQUARE): SolveResult {
+  let best: Solution | null = null;
+  const capped = walkPaths(grid, ends, {
+    onPath: (steps, cost) => {
+      if (!best || cost < best.taps) best = toSolution(grid, steps, cost);
+      return cost === 0;
+    },
+    bound: () => best?.taps ?? Infinity,
+  }, topo);
+  return best ?? (capped ? 'capped' : null);
+}
+
+/**
+ * The solution that turns each tile on a known A→B `route` (A first) to face its neighbours
+ * on it: how a board made with its answer (a generated maze, a drawn level) is solved when
+ * the search gives up. Tiles off the route keep their current rotations.
+ */
+export function routeSolution(grid: Grid, route: Cell[], topo: Topology = SQUARE): Solution {
+  const rots: Rot[][] = grid.map(row => row.map(t => t.rot));
+  const sideTo = ([r, c]: Cell, to: Cell | undefined) => {
+    const s = to ? topo.steps(r).findIndex(([dr, dc]) => r + dr === to[0] && c + dc === to[1]) : -1;
+    return s < 0 ? 0 : 1 << s;
+  };
+  let taps = 0;
+  route.forEach((cell, i) => {
+    const [r, c] = cell;
+    const fit = tapsToOpen(grid[r][c], sideTo(cell, route[i - 1]) | sideTo(cell, route[i + 1]), topo);
+    if (!fit) return;
+    rots[r][c] = fit.rot;
+    taps += fit.taps;
+  });
+  return { rots, path: route, taps };
+}
+
+/** Cells from start to end on the current rotations, or [] if they don't meet (see pathIndexes). */
+export function pathCells(grid: Grid, ends = cornerEnds(grid), topo: Topology = SQUARE): Cell[] {
+  const cols = grid[0]?.length ?? 0;
+  return pathIndexes(grid, ends, topo).map(i => [Math.floor(i / cols), i % cols] as Cell);
+}
+
+/**
+ * Par: the fewest moves that solve the board from its current rotations, or null if it can't be solved.
+ * On very open boards the search may hit its cap: par is then the cheapest solution it found, or if it found
+ * none, the cost of the board's known `route` (null without one, as the board may still be solvable).
+ */
+export function computePar(grid: Grid, ends = cornerEnds(grid), topo: Topology = SQUARE, route?: Cell[]): number | null {
+  const sol = cheapestSolution(grid, ends, topo);
+  if (sol === 'capped') return route?.length ? routeSolution(grid, route, topo).taps : null;
+  return sol?.taps ?? null;
+}
 
-  if (!parent.has(endKey)) return new Set(); // not solved
-  const path = new Set<string>();
-  let cur: string | null = endKey;
-  while (cur) { path.add(cur); cur = parent.get(cur) ?? null; }
-  return path;
+/** Number of distinct A→B paths, counting no further than `limit` (a lower bound on boards too open to search). */
+export function countSolutions(grid: Grid, limit = 2, ends = cornerEnds(grid), topo: Topology = SQUARE): number {
+  let n = 0;
+  walkPaths(grid, ends, { onPath: () => ++n >= limit }, topo);
+  return n;
 }
 
 // ---------- MAZE GENERATOR (DFS perfect maze + random blocks) ----------
-type MazeOpts = { rows: number; cols: number; blockFraction: number; seed?: number };
+type MazeOpts = { rows: number; cols: number; blockFraction: number; ends: Ends; seed?: number; topo: Topology };
 function rng(seed = Math.floor(Math.random() * 1e9)) { let s = seed >>> 0; return () => (s = (s * 1664525 + 1013904223) >>> 0) / 0xffffffff; }
-type Adj = Record<string, Set<Dir>>;
+type Adj = Record<string, number>; // open sides per cell, as a bitmask
 function keyOf(r: number, c: number) { return `${r},${c}`; }
 function shuffle<T>(arr: T[], rnd: () => number): T[] { for (let i = arr.length - 1; i > 0; i--) { const j = Math.floor(rnd() * (i + 1)); [arr[i], arr[j]] = [arr[j], arr[i]]; } return arr; }
 
+// Join (r,c) to its neighbour across side s, unless that leaves (r,c) with openings no piece has (hex only).
+function link(adj: Adj, topo: Topology, r: number, c: number, s: number, nr: number, nc: number): boolean {
+  const k = keyOf(r, c), m = (adj[k] ?? 0) | (1 << s);
+  if (!shapeOf(topo, m)) return false;
+  adj[k] = m;
+  adj[keyOf(nr, nc)] = (adj[keyOf(nr, nc)] ?? 0) | topo.back[s];
+  return true;
+}
+
 function buildMaze(opts: MazeOpts): { adj: Adj; blocks: Set<string> } {
-  const { rows: R, cols: C } = opts;
+  const { rows: R, cols: C, topo } = opts;
+  const [[sr, sc], [er, ec]] = [opts.ends.start, opts.ends.end];
   const rnd = rng(opts.seed);
-  let attempts = 0;
+  let attempts = 0, last = { adj: {} as Adj, blocks: new Set<string>() };
 
   while (attempts++ < 50) {
     const blocks = new Set<string>();
     const total = Math.floor(opts.blockFraction * R * C);
     while (blocks.size < total) {
       const r = Math.floor(rnd() * R), c = Math.floor(rnd() * C);
-      if ((r === 0 && c === 0) || (r === R - 1 && c === C - 1)) continue;
+      if ((r === sr && c === sc) || (r === er && c === ec)) continue;
       blocks.add(keyOf(r, c));
     }
 
     const visited = Array.from({ length: R }, () => Array(C).fill(false));
     const adj: Adj = {};
-    const start: [number, number] = [0, 0];
-    if (blocks.has(keyOf(0, 0)) || blocks.has(keyOf(R - 1, C - 1))) continue;
+    const start: [number, number] = [sr, sc];
+    if (blocks.has(keyOf(sr, sc)) || blocks.has(keyOf(er, ec))) continue;
 
     const stack: [number, number][] = [start];
-    visited[0][0] = true;
+    visited[sr][sc] = true;
 
     while (stack.length) {
       const [r, c] = stack[stack.length - 1];
-      const neigh: [number, number, Dir][] = [];
-      if (inBounds(r - 1, c, R, C) && !visited[r - 1][c] && !blocks.has(keyOf(r - 1, c))) neigh.push([r - 1, c, 'N']);
-      if (inBounds(r, c + 1, R, C) && !visited[r][c + 1] && !blocks.has(keyOf(r, c + 1))) neigh.push([r, c + 1, 'E']);
-      if (inBounds(r + 1, c, R, C) && !visited[r + 1][c] && !blocks.has(keyOf(r + 1, c))) neigh.push([r + 1, c, 'S']);
-      if (inBounds(r, c - 1, R, C) && !visited[r][c - 1] && !blocks.has(keyOf(r, c - 1))) neigh.push([r, c - 1, 'W']);
+      const neigh: [number, number, number][] = [];
+      topo.steps(r).forEach(([dr, dc], s) => {
+        const nr = r + dr, nc = c + dc;
+        if (inBounds(nr, nc, R, C) && !visited[nr][nc] && !blocks.has(keyOf(nr, nc))) neigh.push([nr, nc, s]);
+      });
 
       shuffle(neigh, rnd);
-
-      if (!neigh.length) {
+      const pick = neigh.find(([nr, nc, s]) => link(adj, topo, r, c, s, nr, nc));
+      if (!pick) {
         stack.pop();
       } else {
-        const [nr, nc, d] = neigh[0];
+        const [nr, nc] = pick;
         visited[nr][nc] = true;
-        const aKey = keyOf(r, c), bKey = keyOf(nr, nc);
-        (adj[aKey] ??= new Set()).add(d);
-        (adj[bKey] ??= new Set()).add(opp[d]);
         stack.push([nr, nc]);
       }
     }
 
-    if (visited[R - 1][C - 1]) return { adj, blocks };
+    if (visited[er][ec]) return { adj, blocks };
+    last = { adj, blocks };
   }
-  return buildMaze({ ...opts, blockFraction: 0 });
+  return opts.blockFraction > 0 ? buildMaze({ ...opts, blockFraction: 0 }) : last;
 }
 
-function inferTypeRotFromDirs(dirs: Dir[]): { type: TileType; rot: 0|1|2|3 } {
-  const want = [...dirs].sort().join(',');
-  const types: TileType[] = ['end', 'straight', 'corner', 'tee', 'cross'];
-  for (const t of types) for (let r = 0 as 0|1|2|3; r < 4; r = ((r + 1) as 0|1|2|3)) {
-    const have = [...mapDirs[t][r]].sort().join(',');
-    if (have === want) return { type: t, rot: r };
+// The one A→B route through a maze's tree of links, A first; [] if B was walled off
+function mazeRoute(adj: Adj, ends: Ends, topo: Topology): Cell[] {
+  const parent = new Map<string, Cell>([[keyOf(...ends.start), ends.start]]);
+  const queue: Cell[] = [ends.start];
+  for (let i = 0; i < queue.length && !parent.has(keyOf(...ends.end)); i++) {
+    const [r, c] = queue[i], m = adj[keyOf(r, c)] ?? 0;
+    topo.steps(r).forEach(([dr, dc], s) => {
+      const next: Cell = [r + dr, c + dc];
+      if (!(m & (1 << s)) || parent.has(keyOf(...next))) return;
+      parent.set(keyOf(...next), [r, c]);
+      queue.push(next);
+    });
   }
-  return { type: 'block', rot: 0 };
+  if (!parent.has(keyOf(...ends.end))) return [];
+  const route = [ends.end];
+  while (keyOf(...route[0]) !== keyOf(...ends.start)) route.unshift(parent.get(keyOf(...route[0]))!);
+  return route;
 }
 
-export function generateMazeGrid(rows: number, cols: number, blockFraction = 0.12, seed?: number): Grid {
-  const { adj, blocks } = buildMaze({ rows, cols, blockFraction, seed });
-  const rnd = rng(seed);
+export function inferTypeRotFromDirs(dirs: Dir[]): { type: TileType; rot: Rot } {
+  const shape = shapeOf(SQUARE, dirs.reduce((m, d) => m | (1 << SQUARE.sides.indexOf(d)), 0));
+  return { type: shape!.type, rot: shape!.rot as Rot }; // every set of square sides is some piece
+}
+
+function scramble(rows: number, cols: number, ends: Ends, adj: Adj, blocks: Set<string>, rnd: () => number, topo: Topology): Grid {
+  const n = turnsOf(topo);
   const grid: Grid = Array.from({ length: rows }, (_, r) =>
     Array.from({ length: cols }, (_, c) => {
       const k = keyOf(r, c);
       if (blocks.has(k)) return { type: 'block', rot: 0 } as Tile;
-      const dirs = Array.from(adj[k] ?? []);
-      if (dirs.length === 0) return { type: 'block', rot: 0 } as Tile;
-      const base = inferTypeRotFromDirs(dirs);
-      const spin = (Math.floor(rnd() * 4) as 0|1|2|3);
+      const mask = adj[k] ?? 0;
+      if (!mask) return { type: 'block', rot: 0 } as Tile;
+      const base = shapeOf(topo, mask)!;
+      const spin = Math.floor(rnd() * n) as Rot;
       return { type: base.type, rot: spin } as Tile;
     })
   );
 
-  grid[0][0] = { type: 'end', rot: 2 };                    // A opens down
-  grid[rows - 1][cols - 1] = { type: 'end', rot: 0 };      // B opens up
+  grid[ends.start[0]][ends.start[1]] = { type: 'end', rot: (n / 2) as Rot };  // A opens down (S, or SW on hex)
+  grid[ends.end[0]][ends.end[1]] = { type: 'end', rot: 0 };                  // B opens up (N, or NE on hex)
   return grid;
 }
+
+export interface GenerateOpts {
+  ends?: Ends;       // A/B positions; the corners by default
+  minTaps?: number;  // the cheapest solution must take at least this many moves
+  unique?: boolean;  // reject mazes where more than one A→B path can be formed
+  topology?: Topology; // square by default
+}
+const MAX_MAZES = 20, MAX_SPINS = 20;
+
+/**
+ * Build a maze and scramble it. A scramble that's too easy is re-spun; a maze with more than one
+ * solution is thrown away for a new one. Seeds for retries come from `seed`, so output stays
+ * deterministic; if nothing passes, the hardest candidate seen is returned. `route` is the
+ * maze's own A→B path, a known answer for boards too open for the solver.
+ */
+export function generateMaze(rows: number, cols: number, blockFraction = 0.12, seed?: number, opts: GenerateOpts = {}): { grid: Grid; route: Cell[] } {
+  const ends = opts.ends ?? { start: [0, 0] as Cell, end: [rows - 1, cols - 1] as Cell };
+  const topo = opts.topology ?? SQUARE;
+  const rnd = rng(seed);
+  let mazeSeed = seed;
+  let best: { grid: Grid; route: Cell[]; taps: number; unique: boolean } | null = null;
+
+  for (let m = 0; m < MAX_MAZES; m++) {
+    const { adj, blocks } = buildMaze({ rows, cols, blockFraction, ends, seed: mazeSeed, topo });
+    const route = mazeRoute(adj, ends, topo);
+    let grid = scramble(rows, cols, ends, adj, blocks, rnd, topo);
+    const unique = !opts.unique || countSolutions(grid, 2, ends, topo) === 1; // paths don't depend on rotations
+
+    for (let s = 0; s < MAX_SPINS; s++) {
+      if (s > 0) grid = scramble(rows, cols, ends, adj, blocks, rnd, topo);
+      const taps = opts.minTaps ? (computePar(grid, ends, topo, route) ?? 0) : 0;
+      if (unique && taps >= (opts.minTaps ?? 0)) return { grid, route };
+      if (!best || (unique && !best.unique) || (unique === best.unique && taps > best.taps)) best = { grid, route, taps, unique };
+      if (!unique) break; // re-spinning won't help, try another maze
+    }
+    mazeSeed = Math.floor(rnd() * 1e9);
+  }
+  return { grid: best!.grid, route: best!.route };
+}
+
+/** Just the board from generateMaze. */
+export function generateMazeGrid(rows: number, cols: number, blockFraction = 0.12, seed?: number, opts: GenerateOpts = {}): Grid {
+  return generateMaze(rows, cols, blockFraction, seed, opts).grid;
+}
+
+/** Spin every tile of a hand-made board; re-spins while A→B still happens to be connected. */
+export function scrambleGrid(grid: Grid, ends = cornerEnds(grid), seed?: number, topo: Topology = SQUARE): Grid {
+  const rnd = rng(seed);
+  let out = grid;
+  for (let s = 0; s < MAX_SPINS; s++) {
+    out = grid.map(row => row.map(t => t.type === 'block' ? t : { ...t, rot: Math.floor(rnd() * turnsOf(topo)) as Rot }));
+    if (!isConnectedStartToEnd(out, ends, topo)) break;
+  }
+  return out;
+}
+
+// ---------- NET MODE (connect every tile, no open ends) ----------
+/** True if every opening on every tile meets a matching opening on its neighbour. */
+export function hasNoOpenEnds(grid: Grid, topo: Topology = SQUARE): boolean {
+  const R = grid.length, C = grid[0]?.length ?? 0;
+  for (let r = 0; r < R; r++) for (let c = 0; c < C; c++) {
+    const m = maskOf(grid[r][c], topo);
+    for (const [s, [dr, dc]] of topo.steps(r).entries()) {
+      if (!(m & (1 << s))) continue;
+      const nr = r + dr, nc = c + dc;
+      if (!inBounds(nr, nc, R, C) || !(maskOf(grid[nr][nc], topo) & topo.back[s])) return false;
+    }
+  }
+  return true;
+}
+
+/** A Net board is solved when nothing dangles and every non-block tile is in one network. */
+export function isNetSolved(grid: Grid, topo: Topology = SQUARE): boolean {
+  if (!hasNoOpenEnds(grid, topo)) return false;
+  const tiles = grid.flatMap((row, r) => row.map((t, c) => [t, r, c] as const)).filter(([t]) => t.type !== 'block');
+  if (!tiles.length) return false;
+  const [, r0, c0] = tiles[0];
+  return connectivity(grid, [r0, c0], topo).size === tiles.length;
+}
+
+/** The Net "power source": the non-block tile closest to the middle of the board. */
+export function netSource(grid: Grid): Cell {
+  const R = grid.length, C = grid[0]?.length ?? 0;
+  const mid: Cell = [Math.floor((R - 1) / 2), Math.floor((C - 1) / 2)];
+  let best = mid, bestD = Infinity;
+  for (let r = 0; r < R; r++) for (let c = 0; c < C; c++) {
+    const d = Math.abs(r - mid[0]) + Math.abs(c - mid[1]);
+    if (grid[r][c].type !== 'block' && d < bestD) { best = [r, c]; bestD = d; }
+  }
+  return best;
+}
+
+const MAX_NET_NODES = 20_000;
+
+type NetWalk = {
+  // called with every solved set of rotations and what it costs to reach; return true to stop
+  onSolution: (rots: Rot[][], cost: number) => boolean;
+  // branches whose cheapest completion reaches this are abandoned (branch and bound)
+  bound?: () => number;
+};
+
+/**
+ * Enumerate the ways to rotate the tiles into a solved Net board.
+ * Each tile keeps a domain of orientations; arc consistency removes any orientation whose
+ * side facing a neighbour can't be matched (edges and blocks count as closed), then the
+ * tile with the fewest options left is branched on. Connectivity is checked once every
+ * tile is fixed, since local matching alone allows separate closed loops.
+ * Returns true if the search was cut short by MAX_NET_NODES.
+ */
+function walkNets(grid: Grid, walk: NetWalk, topo: Topology): boolean {
+  const R = grid.length, C = grid[0]?.length ?? 0, n = turnsOf(topo);
+  const sides = topo.sides.map((_, s) => s);
+  const opens = (r: number, c: number, rot: Rot, s: number) => (maskOf({ ...grid[r][c], rot }, topo) & (1 << s)) !== 0;
+  const neighbour = (r: number, c: number, s: number): Cell | null => {
+    const [dr, dc] = topo.steps(r)[s];
+    return inBounds(r + dr, c + dc, R, C) ? [r + dr, c + dc] : null;
+  };
+  const distinct = (t: Tile): Rot[] => {
+    const out: Rot[] = [];
+    for (let k = 0; k < n; k++) {
+      const rot = ((t.rot + k) % n) as Rot;
+      if (!out.some(o => maskOf({ ...t, rot: o }, topo) === maskOf({ ...t, rot }, topo))) out.push(rot);
+    }
+    return out;
+  };
+
+  // drop orientations of (r,c) that no remaining neighbour orientation agrees with
+  const revise = (dom: Rot[][][], r: number, c: number): boolean => {
+    const before = dom[r][c].length;
+    dom[r][c] = dom[r][c].filter(rot => sides.every(s => {
+      const nb = neighbour(r, c, s);
+      const mine = opens(r, c, rot, s);
+      if (!nb) return !mine;
+      return dom[nb[0]][nb[1]].some(nr => opens(nb[0], nb[1], nr, oppSide(topo, s)) === mine);
+    }));
+    return dom[r][c].length !== before;
+  };
+  const propagate = (dom: Rot[][][], queue: Cell[]): boolean => {
+    while (queue.length) {
+      const [r, c] = queue.pop()!;
+      for (const s of sides) {
+        const nb = neighbour(r, c, s);
+        if (!nb || !revise(dom, nb[0], nb[1])) continue;
+        if (!dom[nb[0]][nb[1]].length) return false;
+        queue.push(nb);
+      }
+    }
+    return true;
+  };
+
+  const all: Cell[] = grid.flatMap((row, r) => row.map((_, c) => [r, c] as Cell));
+  const dom0 = grid.map(row => row.map(t => distinct(t)));
+  for (const [r, c] of all) revise(dom0, r, c);
+  if (all.some(([r, c]) => !dom0[r][c].length) || !propagate(dom0, [...all])) return false;
+
+  // moves to turn (r,c) to `rot`; a complete board costs the sum, a partial one at least the sum of each tile's cheapest
+  const price = (r: number, c: number, rot: Rot) => tapsToOpen(grid[r][c], maskOf({ ...grid[r][c], rot }, topo), topo)!.taps;
+  const leastCost = (dom: Rot[][][]) => all.reduce((sum, [r, c]) => sum + Math.min(...dom[r][c].map(rot => price(r, c, rot))), 0);
+
+  let nodes = 0;
+  const search = (dom: Rot[][][]): boolean => {
+    if (++nodes > MAX_NET_NODES) return true;
+    if (walk.bound && leastCost(dom) >= walk.bound()) return false;
+    let pick: Cell | null = null;
+    for (const [r, c] of all) {
+      const k = dom[r][c].length;
+      if (k > 1 && (!pick || k < dom[pick[0]][pick[1]].length)) pick = [r, c];
+    }
+    if (!pick) {
+      const rots = dom.map(row => row.map(d => d[0]));
+      return isNetSolved(grid.map((row, r) => row.map((t, c) => ({ ...t, rot: rots[r][c] }))), topo)
+        && walk.onSolution(rots, leastCost(dom));
+    }
+    const [pr, pc] = pick;
+    for (const rot of dom[pr][pc]) {
+      const next = dom.map(row => row.map(d => d.slice()));
+      next[pr][pc] = [rot];
+      if (propagate(next, [pick]) && search(next)) return true;
+    }
+    return false;
+  };
+  search(dom0);
+  return nodes > MAX_NET_NODES;
+}
+
+/** Every way (up to `limit`) to rotate the tiles into a solved Net board. */
+export function netSolutions(grid: Grid, limit = 1, topo: Topology = SQUARE): Rot[][][] {
+  const found: Rot[][][] = [];
+  walkNets(grid, { onSolution: rots => found.push(rots) >= limit }, topo);
+  return found;
+}
+
+/** Rotations that solve a Net board, or null if there are none. */
+export function solveNet(grid: Grid, topo: Topology = SQUARE): Rot[][] | null {
+  return netSolutions(grid, 1, topo)[0] ?? null;
+}
+
+/** Par for a Net board: the fewest moves to any solution (exhaustive up to the search cap, then the cheapest found). */
+export function computeNetPar(grid: Grid, topo: Topology = SQUARE): number | null {
+  let best: number | null = null;
+  walkNets(grid, {
+    onSolution: (_, cost) => {
+      if (best === null || cost < best) best = cost;
+      return cost === 0;
+    },
+    bound: () => best ?? Infinity,
+  }, topo);
+  return best;
+}
+
+/**
+ * Net generator: random blocks, then a randomized Prim spanning tree over every other cell
+ * reachable from the middle (cut-off cells become blocks). Prim branches far more than the
+ * DFS maze above, which gives the tees and crosses Net boards are made of.
+ */
+export function generateNetGrid(rows: number, cols: number, blockFraction = 0, seed?: number,
+  opts: { unique?: boolean; topology?: Topology } = {}): Grid {
+  const topo = opts.topology ?? SQUARE;
+  const rnd = rng(seed);
+  const mid: Cell = [Math.floor((rows - 1) / 2), Math.floor((cols - 1) / 2)];
+  let fallback: Grid | null = null;
+
+  for (let attempt = 0; attempt < MAX_MAZES; attempt++) {
+    const blocks = new Set<string>();
+    const total = Math.floor(blockFraction * rows * cols);
+    while (blocks.size < total) {
+      const r = Math.floor(rnd() * rows), c = Math.floor(rnd() * cols);
+      if (r !== mid[0] || c !== mid[1]) blocks.add(keyOf(r, c));
+    }
+
+    const adj: Adj = {};
+    const inTree = new Set<string>([keyOf(...mid)]);
+    const frontier: [number, number, number][] = [];
+    const addEdges = (r: number, c: number) => {
+      topo.steps(r).forEach(([dr, dc], s) => {
+        const nr = r + dr, nc = c + dc;
+        if (inBounds(nr, nc, rows, cols) && !blocks.has(keyOf(nr, nc))) frontier.push([r, c, s]);
+      });
+    };
+    addEdges(...mid);
+    while (frontier.length) {
+      const i = Math.floor(rnd() * frontier.length);
+      const [r, c, s] = frontier[i];
+      frontier[i] = frontier[frontier.length - 1]; frontier.pop();
+      const [dr, dc] = topo.steps(r)[s];
+      const nr = r + dr, nc = c + dc;
+      if (inTree.has(keyOf(nr, nc)) || !link(adj, topo, r, c, s, nr, nc)) continue;
+      inTree.add(keyOf(nr, nc));
+      addEdges(nr, nc);
+    }
+
+    let grid: Grid = [];
+    for (let s = 0; s < MAX_SPINS; s++) {
+      grid = Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) => {
+        const mask = adj[keyOf(r, c)] ?? 0;
+        if (!mask) return { type: 'block', rot: 0 } as Tile;
+        return { type: shapeOf(topo, mask)!.type, rot: Math.floor(rnd() * turnsOf(topo)) as Rot };
+      }));
+      if (!isNetSolved(grid, topo)) break;
+    }
+    fallback ??= grid;
+    if (!opts.unique || netSolutions(grid, 2, topo).length === 1) return grid;
+  }
+  return fallback!;
+}
@@ -0,0 +1,65 @@
+// src/lib/replay.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Grid } from './pathfind';
+import { generateMazeGrid, cornerEnds } from './pathfind';
+import type { SaveSlot } from './saves';
+import { SAVE_VERSION, validateSlot } from './saves';
+import { emptyHistory } from './history';
+import { startRecording, addStep, replayOf, gridAt, playbackTimes, stepsBy, replayToJson, parseReplay, MAX_GAP_MS } from './replay';
+
+const start: Grid = generateMazeGrid(5, 5, 0.08, 42);
+const turned = (r: number, c: number) => ((start[r][c].rot + 1) % 4) as 0 | 1 | 2 | 3;
+
+let log = startRecording(start);
+log = addStep(log, 800, 0, 1, turned(0, 1));
+log = addStep(log, 1400, 2, 2, turned(2, 2));
+log = addStep(log, 60_000, 4, 3, turned(4, 3));
+
+const slot: SaveSlot = {
+  v: SAVE_VERSION, id: 'x', mode: 'path', difficulty: 'easy', grid: start, ends: cornerEnds(start), history: emptyHistory(),
+  seed: 42, par: 6, moves: 0, elapsedMs: 61_000, solved: false, createdAt: 0, updatedAt: 0, log,
+};
+
+describe('replays', () => {
+  it('rebuilds the board turn by turn from the recording', () => {
+    const replay = replayOf(slot)!;
+    expect(gridAt(replay, 0)).toEqual(start);
+    const after2 = gridAt(replay, 2);
+    expect(after2[0][1].rot).toBe(turned(0, 1));
+    expect(after2[2][2].rot).toBe(turned(2, 2));
+    expect(after2[4][3]).toEqual(start[4][3]);
+  });
+
+  it('cuts long pauses on playback and finds the steps played by a time', () => {
+    const times = playbackTimes(log.steps);
+    expect(times).toEqual([800, 1400, 1400 + MAX_GAP_MS]);
+    expect(stepsBy(times, 0)).toBe(0);
+    expect(stepsBy(times, 800)).toBe(1);
+    expect(stepsBy(times, 2000)).toBe(2);
+    expect(stepsBy(times, 1e9)).toBe(3);
+  });
+
+  it('exports compact JSON and reads it back', () => {
+    const replay = replayOf(slot)!;
+    const json = replayToJson(replay);
+    expect(json).not.toContain('\n');
+    expect(JSON.parse(json).board[0]).toMatch(/^([a-z]\d){5}$/);
+    expect(parseReplay(json)).toEqual(replay);
+  });
+
+  it('rejects malformed replays', () => {
+    const data = JSON.parse(replayToJson(replayOf(slot)!));
+    expect(parseReplay('not json')).toBeNull();
+    expect(parseReplay(JSON.stringify({ ...data, v: 2 }))).toBeNull();
+    expect(parseReplay(JSON.stringify({ ...data, steps: [[0, 9, 9, 1]] }))).toBeNull();          // off the board
+    expect(parseReplay(JSON.stringify({ ...data, steps: [[500, 0, 0, 1], [100, 0, 0, 2]] }))).toBeNull(); // out of order
+    expect(parseReplay(JSON.stringify({ ...data, board: ['q0'] }))).toBeNull();
+  });
+
+  it('drops a save slot recording that does not fit its board', () => {
+    expect(validateSlot(slot)!.log).toEqual(log);
+    const bad = validateSlot({ ...slot, log: { from: '0/1', steps: [] } })!;
+    expect(bad).not.toBeNull();
+    expect(bad.log).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+// src/lib/replay.ts
+// Every game keeps a recording: the rotations the board started in, then each turn with its
+// time on the play clock. A replay is that recording plus the board, and exports as compact JSON
+// (a board row is one string, each step four numbers) so it can go into a bug report whole.
+import type { Grid, Ends, Rot, TileType, TopologyKind } from './pathfind';
+import { setRot } from './history';
+import { TOPOLOGIES } from './topology';
+import type { GameMode, Difficulty, SaveSlot } from './saves';
+import { DIFFICULTIES, isCell, isGrid, isRecording } from './saves';
+
+/** [time on the play clock in ms, row, col, rotation after the turn] */
+export type ReplayStep = [t: number, r: number, c: number, rot: number];
+
+/** What a save slot keeps: the starting rotations, a digit per tile with rows split by '/', and the steps since. */
+export interface Recording { from: string; steps: ReplayStep[]; }
+
+export interface Replay {
+  mode: GameMode;
+  difficulty: Difficulty;
+  topology: TopologyKind;
+  seed?: number;
+  ends: Ends;
+  start: Grid;
+  steps: ReplayStep[];
+}
+
+export const REPLAY_FORMAT = 'zen-loops-replay';
+export const REPLAY_VERSION = 1;
+export const MAX_GAP_MS = 1500; // playback skips the rest of any longer pause
+
+const rotsOf = (grid: Grid) => grid.map(row => row.map(t => t.rot).join('')).join('/');
+
+/** A recording that starts from `grid` as it is now. */
+export const startRecording = (grid: Grid): Recording => ({ from: rotsOf(grid), steps: [] });
+
+export const addStep = (rec: Recording, t: number, r: number, c: number, rot: Rot): Recording =>
+  ({ from: rec.from, steps: [...rec.steps, [Math.round(t), r, c, rot]] });
+
+/** The slot's board as its recording started, or null for slots saved before recording. */
+export function replayOf(slot: SaveSlot): Replay | null {
+  if (!slot.log) return null;
+  const rots = slot.log.from.split('/');
+  const start = slot.grid.map((row, r) => row.map((t, c) => ({ type: t.type, rot: Number(rots[r][c]) as Rot })));
+  return {
+    mode: slot.mode, difficulty: slot.difficulty, topology: slot.topology ?? 'square', seed: slot.seed,
+    ends: slot.ends, start, steps: slot.log.steps,
+  };
+}
+
+/** The board after the first `n` steps. */
+export const gridAt = (replay: Replay, n: number): Grid =>
+  replay.steps.slice(0, n).reduce((g, [, r, c, rot]) => setRot(g, r, c, rot as Rot), replay.start);
+
+/** When each step plays back, in ms from the start, with long pauses cut to MAX_GAP_MS. */
+export function playbackTimes(steps: ReplayStep[]): number[] {
+  let at = 0, prev = 0;
+  return steps.map(([t]) => {
+    at += Math.min(MAX_GAP_MS, t - prev);
+    prev = t;
+    return at;
+  });
+}
+
+/** How many steps have played by `at` ms into playback (`times` from playbackTimes). */
+export function stepsBy(times: number[], at: number): number {
+  let lo = 0, hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= at) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+// ----- file format -----
+// A tile is a letter for its type and a digit for its rotation: "e1c2b0" is an end, a corner, a block
+const TYPE_CODES: Record<TileType, string> = {
+  end: 'e', straight: 's', corner: 'c', tee: 't', cross: 'x', hook: 'h', bend: 'n', fan: 'f', y: 'y', block: 'b',
+};
+const CODE_TYPES = Object.fromEntries(Object.entries(TYPE_CODES).map(([type, code]) => [code, type as TileType]));
+
+export function replayToJson(replay: Replay): string {
+  const { mode, difficulty, topology, seed, ends, start, steps } = replay;
+  return JSON.stringify({
+    format: REPLAY_FORMAT, v: REPLAY_VERSION, mode, difficulty, topology, ...(seed !== undefined ? { seed } : {}),
+    ends: [ends.start, ends.end], board: start.map(row => row.map(t => TYPE_CODES[t.type] + t.rot).join('')), steps,
+  });
+}
+
+/** Read an exported replay; anything malformed is rejected rather than trusted. */
+export function parseReplay(text: string): Replay | null {
+  let v: Record<string, unknown>;
+  try { v = JSON.parse(text); } catch { return null; }
+  if (typeof v !== 'object' || v === null || v.format !== REPLAY_FORMAT || v.v !== REPLAY_VERSION) return null;
+  const { mode, difficulty, topology, seed, ends, board, steps } = v;
+  if ((mode !== 'path' && mode !== 'net') || !DIFFICULTIES.includes(difficulty as Difficulty)) return null;
+  if (topology !== 'square' && topology !== 'hex') return null;
+  if (seed !== undefined && !(Number.isInteger(seed) && (seed as number) >= 0)) return null;
+  if (!Array.isArray(board) || !board.every(row => typeof row === 'string' && /^([a-z]\d)+$/.test(row))) return null;
+  const start = (board as string[]).map(row => row.match(/[a-z]\d/g)!.map(code => ({ type: CODE_TYPES[code[0]], rot: Number(code[1]) as Rot })));
+  const topo = TOPOLOGIES[topology];
+  if (!isGrid(start, topo) || !Array.isArray(ends) || !isCell(ends[0], start) || !isCell(ends[1], start)) return null;
+  const rec = { from: rotsOf(start), steps };
+  if (!isRecording(rec, start, topo)) return null;
+  return {
+    mode, difficulty: difficulty as Difficulty, topology, seed: seed as number | undefined,
+    ends: { start: ends[0], end: ends[1] }, start, steps: rec.steps,
+  };
+}
@@ -0,0 +1,74 @@
+// src/lib/saves.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Grid } from './pathfind';
+import { generateMazeGrid, computePar } from './pathfind';
+import { validateSlot, migrateLegacy, SAVE_VERSION } from './saves';
+
+const grid: Grid = generateMazeGrid(5, 5, 0.08, 42);
+
+describe('migrateLegacy', () => {
+  it('accepts the original bare-Grid format', () => {
+    const slot = migrateLegacy(JSON.parse(JSON.stringify(grid)), 'path', 'easy', 1000)!;
+    expect(slot.v).toBe(SAVE_VERSION);
+    expect(slot.grid).toEqual(grid);
+    expect(slot.history).toEqual({ past: [], future: [] });
+    expect(slot.ends).toEqual({ start: [0, 0], end: [4, 4] });
+    expect(slot.par).toBe(computePar(grid));
+    expect(slot.createdAt).toBe(1000);
+    expect(validateSlot(slot)).toEqual(slot);
+  });
+
+  it('keeps history, seed and par from the object format', () => {
+    const rotated = grid.map(row => row.slice());
+    rotated[0][0] = { ...grid[0][0], rot: ((grid[0][0].rot + 1) % 4) as 0 | 1 | 2 | 3 };
+    const history = { past: [{ r: 0, c: 0, from: grid[0][0].rot, to: rotated[0][0].rot }], future: [] };
+    const slot = migrateLegacy({ grid: rotated, history, seed: 42, par: 7 }, 'path', 'easy')!;
+    expect(slot.history).toEqual(history);
+    expect(slot.moves).toBe(1);
+    expect(slot.seed).toBe(42);
+    expect(slot.par).toBe(7);
+  });
+
+  it('rejects things that are not boards', () => {
+    expect(migrateLegacy(null, 'path', 'easy')).toBeNull();
+    expect(migrateLegacy([[{ type: 'pipe', rot: 0 }]], 'path', 'easy')).toBeNull();
+    expect(migrateLegacy({ grid: [[{ type: 'end', rot: 4 }]] }, 'path', 'easy')).toBeNull();
+    expect(migrateLegacy([[], []], 'path', 'easy')).toBeNull();
+  });
+});
+
+describe('validateSlot', () => {
+  const good = migrateLegacy(grid, 'path', 'medium')!;
+
+  it('rejects other versions and malformed fields', () => {
+    expect(validateSlot({ ...good, v: 1 })).toBeNull();
+    expect(validateSlot({ ...good, mode: 'hex' })).toBeNull();
+    expect(validateSlot({ ...good, ends: { start: [0, 0], end: [9, 9] } })).toBeNull();
+    expect(validateSlot({ ...good, history: { past: [{ r: 0, c: 0, from: 0, to: 7 }], future: [] } })).toBeNull();
+    expect(validateSlot({ ...good, elapsedMs: -5 })).toBeNull();
+    expect(validateSlot({ ...good, grid: [[...grid[0]], grid[1].slice(1)] })).toBeNull(); // ragged
+  });
+
+  it('keeps locked tiles and rejects a malformed lock', () => {
+    const locked = grid.map((row, r) => row.map((t, c) => r === 0 && c === 0 ? { ...t, locked: true } : t));
+    expect(validateSlot({ ...good, grid: locked })!.grid[0][0].locked).toBe(true);
+    expect(validateSlot({ ...good, grid: [[{ ...grid[0][0], locked: 'yes' }, ...grid[0].slice(1)], ...grid.slice(1)] })).toBeNull();
+  });
+
+  it('checks hex boards against hex pieces and six rotations', () => {
+    const hex = { ...good, topology: 'hex', grid: [[{ type: 'bend', rot: 5 }, { type: 'y', rot: 0 }]], ends: { start: [0, 0], end: [0, 1] } };
+    expect(validateSlot(hex)).not.toBeNull();
+    expect(validateSlot({ ...hex, topology: undefined })).toBeNull(); // a bend isn't a square piece
+    expect(validateSlot({ ...hex, grid: [[{ type: 'bend', rot: 6 }, { type: 'y', rot: 0 }]] })).toBeNull();
+    expect(validateSlot({ ...good, topology: 'tri' })).toBeNull();
+  });
+
+  it('keeps a route that fits the board and drops one that does not', () => {
+    expect(validateSlot({ ...good, route: [[0, 0], [0, 1]] })!.route).toEqual([[0, 0], [0, 1]]);
+    expect(validateSlot({ ...good, route: [[0, 0], [9, 9]] })!.route).toBeUndefined();
+  });
+
+  it('recomputes moves from history', () => {
+    expect(validateSlot({ ...good, moves: 99 })!.moves).toBe(0);
+  });
+});
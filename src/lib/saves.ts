@@ -0,0 +1,192 @@
+// src/lib/saves.ts
+// Versioned save slots: several in-progress boards per mode + level, with migration from
+// the single-board formats that came before.
+import type { Grid, Ends, Cell, Rot, Topology, TopologyKind } from './pathfind';
+import { cornerEnds, netSource, computePar, computeNetPar } from './pathfind';
+import { SQUARE, TOPOLOGIES } from './topology';
+import type { History, Move } from './history';
+import { emptyHistory, rewind } from './history';
+import type { Recording } from './replay';
+
+export type GameMode = 'path' | 'net';
+export const DIFFICULTIES = ['easy', 'medium', 'hard', 'daily', 'custom', 'campaign'] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+/** A campaign level's place: pack id + index into the pack (see lib/campaign). */
+export interface LevelRef { pack: string; index: number; }
+
+export const SAVE_VERSION = 2;
+export const MAX_SLOTS = 5; // per mode + level; the oldest (solved first) are dropped
+
+export interface SaveSlot {
+  v: typeof SAVE_VERSION;
+  id: string;
+  mode: GameMode;
+  difficulty: Difficulty;
+  grid: Grid;
+  ends: Ends;            // Net boards use their power source for both
+  history: History;
+  seed?: number;         // boards from before seeds existed have none
+  par: number | null;
+  moves: number;         // mirrors history.past.length, kept for listing without parsing history
+  elapsedMs: number;
+  hintsUsed?: number;    // added after v2 shipped; missing means none
+  level?: LevelRef;      // campaign boards only
+  topology?: TopologyKind; // missing means square
+  log?: Recording;       // every turn since the board was made (see lib/replay); missing on older saves
+  route?: Cell[];        // a known A→B path, A first, for hints when the solver gives up (see pathfind routeSolution)
+  solved: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// hex boards get lists of their own, so Continue and "resume the latest" stay on one kind of board
+const slotsKey = (mode: GameMode, d: Difficulty, topo: TopologyKind = 'square') =>
+  `zenloops:slots:${topo === 'square' ? '' : `${topo}-`}${mode}:${d}`;
+// v1 kept a single board per level under these keys
+const legacyKey = (mode: GameMode, d: Difficulty) => mode === 'net' ? `zenloops:net:${d}` : `zenloops:${d}`;
+const LAST_KEY = 'zenloops:last';
+
+export const newSlotId = () => `${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
+
+// ----- validation -----
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isRotOn = (topo: Topology) => (v: unknown): v is Rot => Number.isInteger(v) && (v as number) >= 0 && (v as number) < topo.sides.length;
+const isCount = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+
+/** A rectangular board made of `topo`'s pieces (square by default). */
+export function isGrid(v: unknown, topo: Topology = SQUARE): v is Grid {
+  if (!Array.isArray(v) || !v.length || !Array.isArray(v[0]) || !v[0].length) return false;
+  const cols = v[0].length, isRot = isRotOn(topo);
+  return v.every(row => Array.isArray(row) && row.length === cols && row.every(t =>
+    isObj(t) && topo.types.includes(t.type as Grid[number][number]['type']) && isRot(t.rot)
+    && (t.locked === undefined || typeof t.locked === 'boolean')));
+}
+
+export function isCell(v: unknown, grid: Grid): v is Cell {
+  return Array.isArray(v) && v.length === 2 && Number.isInteger(v[0]) && Number.isInteger(v[1])
+    && v[0] >= 0 && v[1] >= 0 && v[0] < grid.length && v[1] < grid[0].length;
+}
+
+function isHistory(v: unknown, grid: Grid, topo: Topology = SQUARE): v is History {
+  const isRot = isRotOn(topo);
+  const isMove = (m: unknown): m is Move => isObj(m) && isCell([m.r, m.c], grid) && isRot(m.from) && isRot(m.to);
+  return isObj(v) && Array.isArray(v.past) && Array.isArray(v.future) && v.past.every(isMove) && v.future.every(isMove);
+}
+
+/** Does `v` fit this board: a rotation per tile, then steps on the board in time order? */
+export function isRecording(v: unknown, grid: Grid, topo: Topology = SQUARE): v is Recording {
+  if (!isObj(v) || typeof v.from !== 'string' || !Array.isArray(v.steps)) return false;
+  const rows = v.from.split('/'), sides = topo.sides.length;
+  if (rows.length !== grid.length || !rows.every((row, r) =>
+    row.length === grid[r].length && [...row].every(d => d >= '0' && Number(d) < sides))) return false;
+  let last = 0;
+  return v.steps.every(s => {
+    if (!Array.isArray(s) || s.length !== 4 || !s.every(Number.isInteger)) return false;
+    const [t, r, c, rot] = s as number[];
+    const ok = t >= last && isCell([r, c], grid) && rot >= 0 && rot < sides;
+    last = t;
+    return ok;
+  });
+}
+
+/** Check a parsed v2 slot; anything malformed is rejected rather than trusted. */
+export function validateSlot(v: unknown): SaveSlot | null {
+  if (!isObj(v) || v.v !== SAVE_VERSION || typeof v.id !== 'string') return null;
+  if (v.mode !== 'path' && v.mode !== 'net') return null;
+  if (!DIFFICULTIES.includes(v.difficulty as Difficulty)) return null;
+  if (v.topology !== undefined && !(v.topology === 'square' || v.topology === 'hex')) return null;
+  const topo = TOPOLOGIES[v.topology ?? 'square'];
+  if (!isGrid(v.grid, topo) || !isObj(v.ends) || !isCell(v.ends.start, v.grid) || !isCell(v.ends.end, v.grid)) return null;
+  if (!isHistory(v.history, v.grid, topo)) return null;
+  if (v.seed !== undefined && !isCount(v.seed)) return null;
+  if (v.par !== null && !isCount(v.par)) return null;
+  if (v.hintsUsed !== undefined && !isCount(v.hintsUsed)) return null;
+  if (v.level !== undefined && !(isObj(v.level) && typeof v.level.pack === 'string' && Number.isInteger(v.level.index) && isCount(v.level.index))) return null;
+  if (!isCount(v.elapsedMs) || !isCount(v.createdAt) || !isCount(v.updatedAt) || typeof v.solved !== 'boolean') return null;
+  // a recording or route that doesn't fit is dropped, not the whole board
+  const log = isRecording(v.log, v.grid, topo) ? v.log : undefined;
+  const grid = v.grid;
+  const route = Array.isArray(v.route) && v.route.every(c => isCell(c, grid)) ? v.route as Cell[] : undefined;
+  return { ...(v as unknown as SaveSlot), moves: v.history.past.length, log, route };
+}
+
+// ----- migration -----
+/**
+ * Turn a v1 save into a slot. v1 was either a bare Grid (the first format) or
+ * { grid, history?, seed?, par?, ends? } as fields were added one by one.
+ */
+export function migrateLegacy(data: unknown, mode: GameMode, d: Difficulty, now = Date.now()): SaveSlot | null {
+  const v1 = isGrid(data) ? { grid: data } : isObj(data) ? data : null;
+  if (!v1 || !isGrid(v1.grid)) return null;
+  const grid = v1.grid;
+  const history = isHistory(v1.history, grid) ? v1.history : emptyHistory();
+  const ends = isObj(v1.ends) && isCell(v1.ends.start, grid) && isCell(v1.ends.end, grid)
+    ? v1.ends as unknown as Ends
+    : mode === 'net' ? { start: netSource(grid), end: netSource(grid) } : cornerEnds(grid);
+  const start = rewind(grid, history);
+  const par = v1.par === null || isCount(v1.par) ? v1.par
+    : mode === 'net' ? computeNetPar(start) : computePar(start, ends);
+  return {
+    v: SAVE_VERSION, id: newSlotId(), mode, difficulty: d,
+    grid, ends, history, seed: isCount(v1.seed) ? v1.seed : undefined, par,
+    moves: history.past.length, elapsedMs: 0, solved: false, createdAt: now, updatedAt: now,
+  };
+}
+
+// ----- storage -----
+function readSlots(mode: GameMode, d: Difficulty, topo: TopologyKind = 'square'): SaveSlot[] {
+  try {
+    const raw = localStorage.getItem(slotsKey(mode, d, topo));
+    if (raw) {
+      const data: unknown = JSON.parse(raw);
+      return Array.isArray(data) ? data.map(validateSlot).filter((s): s is SaveSlot => s !== null) : [];
+    }
+    if (topo !== 'square') return [];
+    const legacy = localStorage.getItem(legacyKey(mode, d));
+    if (!legacy) return [];
+    const migrated = migrateLegacy(JSON.parse(legacy), mode, d);
+    const slots = migrated ? [migrated] : [];
+    writeSlots(mode, d, slots);
+    localStorage.removeItem(legacyKey(mode, d));
+    return slots;
+  } catch { return []; }
+}
+function writeSlots(mode: GameMode, d: Difficulty, slots: SaveSlot[], topo: TopologyKind = 'square') {
+  localStorage.setItem(slotsKey(mode, d, topo), JSON.stringify(slots));
+}
+
+/** Every saved board for a mode + level, most recently played first. */
+export function listSlots(mode: GameMode, d: Difficulty, topo: TopologyKind = 'square'): SaveSlot[] {
+  return readSlots(mode, d, topo).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getSlot(mode: GameMode, d: Difficulty, id: string, topo: TopologyKind = 'square'): SaveSlot | null {
+  return readSlots(mode, d, topo).find(s => s.id === id) ?? null;
+}
+
+/** Insert or replace a slot, then trim the level to MAX_SLOTS. */
+export function putSlot(slot: SaveSlot) {
+  const topo = slot.topology ?? 'square';
+  const others = readSlots(slot.mode, slot.difficulty, topo).filter(s => s.id !== slot.id);
+  const keep = [slot, ...others]
+    .sort((a, b) => Number(a.solved) - Number(b.solved) || b.updatedAt - a.updatedAt)
+    .slice(0, MAX_SLOTS);
+  if (!keep.includes(slot)) keep[keep.length - 1] = slot; // the board being played always stays
+  writeSlots(slot.mode, slot.difficulty, keep, topo);
+}
+
+export function removeSlot(mode: GameMode, d: Difficulty, id: string, topo: TopologyKind = 'square') {
+  writeSlots(mode, d, readSlots(mode, d, topo).filter(s => s.id !== id), topo);
+}
+
+export type LastPlayed = { mode: GameMode; difficulty: Difficulty; id: string; topology?: TopologyKind };
+export function getLastPlayed(): LastPlayed | null {
+  try {
+    const raw = localStorage.getItem(LAST_KEY);
+    return raw ? (JSON.parse(raw) as LastPlayed) : null;
+  } catch { return null; }
+}
+export function setLastPlayed(last: LastPlayed) {
+  localStorage.setItem(LAST_KEY, JSON.stringify(last));
+}
@@ -0,0 +1,11 @@
+// src/lib/score.ts
+export type Stars = 1 | 2 | 3;
+
+/** 3 stars at or under par, 2 within half again of par, otherwise 1. */
+export function starsFor(moves: number, par: number): Stars {
+  if (moves <= par) return 3;
+  if (moves <= Math.ceil(par * 1.5)) return 2;
+  return 1;
+}
+
+export const starText = (n: Stars) => '★'.repeat(n) + '☆'.repeat(3 - n);
@@ -0,0 +1,20 @@
+// src/lib/seed.ts
+// Seeds are plain integers fed to generateMazeGrid; players see them as a short base-36 "puzzle code".
+
+const MAX_SEED = 1e9;
+
+export function newSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+export function seedToCode(seed: number): string {
+  return seed.toString(36).toUpperCase().padStart(6, '0');
+}
+
+/** Parse a puzzle code back to its seed; null if it isn't one. */
+export function codeToSeed(code: string): number | null {
+  const s = code.trim().toLowerCase();
+  if (!/^[0-9a-z]{1,6}$/.test(s)) return null;
+  const n = parseInt(s, 36);
+  return n < MAX_SEED ? n : null;
+}
@@ -0,0 +1,63 @@
+// src/lib/stats.test.ts
+import { describe, it, expect } from 'vitest';
+import type { GameRecord } from './stats';
+import { summarize, median, mergeGames, mergeDaily, parseExport } from './stats';
+
+const game = (over: Partial<GameRecord>): GameRecord => ({
+  id: 'a', mode: 'path', difficulty: 'easy', seed: 1, moves: 10, par: 8, timeMs: 60_000,
+  hintsUsed: 0, solved: true, playedAt: 1, ...over,
+});
+
+describe('summarize', () => {
+  it('groups by mode and level with times from solved games only', () => {
+    const stats = summarize([
+      game({ id: '1', timeMs: 30_000, playedAt: 1 }),
+      game({ id: '2', timeMs: 90_000, moves: 16, playedAt: 2 }),
+      game({ id: '3', timeMs: 5_000, solved: false, playedAt: 3 }),
+      game({ id: '4', mode: 'net', playedAt: 4 }),
+    ]);
+    expect(stats).toHaveLength(2);
+    const easy = stats[0];
+    expect(easy).toMatchObject({ mode: 'path', difficulty: 'easy', played: 3, solved: 2, bestMs: 30_000, medianMs: 60_000 });
+    expect(easy.efficiency).toEqual([0.8, 0.5]);
+    expect(stats[1].mode).toBe('net');
+  });
+
+  it('takes the middle value for the median', () => {
+    expect(median([])).toBeNull();
+    expect(median([5, 1, 3])).toBe(3);
+  });
+});
+
+describe('merging imports', () => {
+  it('prefers solved records, then newer ones', () => {
+    const merged = mergeGames(
+      [game({ id: 'x', solved: false, playedAt: 5 }), game({ id: 'y', moves: 12 })],
+      [game({ id: 'x', playedAt: 2 }), game({ id: 'y', moves: 40, playedAt: 9 }), game({ id: 'z', playedAt: 3 })],
+    );
+    expect(merged.map(g => g.id)).toEqual(['y', 'x', 'z']);
+    expect(merged.find(g => g.id === 'x')!.solved).toBe(true);
+    expect(merged.find(g => g.id === 'y')!.moves).toBe(12); // solved on both: keep what's here
+  });
+
+  it('keeps the first daily solve', () => {
+    const here = { '2026-01-02': { startedAt: 1, solved: { moves: 9, timeMs: 100 } }, '2026-01-03': { startedAt: 2 } };
+    const there = { '2026-01-02': { startedAt: 1, solved: { moves: 30, timeMs: 900 } }, '2026-01-03': { startedAt: 2, solved: { moves: 7, timeMs: 50 } } };
+    expect(mergeDaily(here, there)).toEqual({ '2026-01-02': here['2026-01-02'], '2026-01-03': there['2026-01-03'] });
+  });
+});
+
+describe('parseExport', () => {
+  const file = { app: 'zen-loops', v: 1, exportedAt: 1, games: [game({})], daily: {} };
+
+  it('accepts its own export format', () => {
+    expect(parseExport(JSON.stringify(file))).toEqual(file);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseExport('not json')).toBeNull();
+    expect(parseExport(JSON.stringify({ ...file, app: 'other' }))).toBeNull();
+    expect(parseExport(JSON.stringify({ ...file, games: [{ ...game({}), moves: -1 }] }))).toBeNull();
+    expect(parseExport(JSON.stringify({ ...file, daily: { today: { startedAt: 1 } } }))).toBeNull();
+  });
+});
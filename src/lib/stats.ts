@@ -0,0 +1,156 @@
+// src/lib/stats.ts
+// Local game log and the numbers the Stats view shows. One record per board that was played
+// (at least one move); it's updated as the game goes and frozen once solved.
+import type { TopologyKind } from './pathfind';
+import type { GameMode, Difficulty } from './saves';
+import { DIFFICULTIES } from './saves';
+import type { DailyLog } from './daily';
+import { loadDailyLog, saveDailyLog } from './daily';
+
+export interface GameRecord {
+  id: string;            // the save slot's id
+  mode: GameMode;
+  difficulty: Difficulty;
+  topology?: TopologyKind; // missing means square
+  seed?: number;
+  moves: number;
+  par: number | null;
+  timeMs: number;
+  hintsUsed: number;
+  solved: boolean;
+  playedAt: number;      // last update (ms epoch)
+}
+
+const GAMES_KEY = 'zenloops:games';
+export const MAX_GAMES = 1000; // oldest records are dropped past this
+
+// ----- validation -----
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isCount = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+
+function isRecord(v: unknown): v is GameRecord {
+  return isObj(v) && typeof v.id === 'string'
+    && (v.mode === 'path' || v.mode === 'net')
+    && DIFFICULTIES.includes(v.difficulty as Difficulty)
+    && (v.topology === undefined || v.topology === 'square' || v.topology === 'hex')
+    && (v.seed === undefined || isCount(v.seed))
+    && isCount(v.moves) && (v.par === null || isCount(v.par)) && isCount(v.timeMs) && isCount(v.hintsUsed)
+    && typeof v.solved === 'boolean' && isCount(v.playedAt);
+}
+
+function isDailyLog(v: unknown): v is DailyLog {
+  return isObj(v) && Object.entries(v).every(([k, e]) => /^\d{4}-\d{2}-\d{2}$/.test(k) && isObj(e) && isCount(e.startedAt)
+    && (e.solved === undefined || (isObj(e.solved) && isCount(e.solved.moves) && isCount(e.solved.timeMs))));
+}
+
+// ----- storage -----
+export function loadGames(): GameRecord[] {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(GAMES_KEY) ?? '[]');
+    return Array.isArray(data) ? data.filter(isRecord) : [];
+  } catch { return []; }
+}
+function saveGames(games: GameRecord[]) {
+  localStorage.setItem(GAMES_KEY, JSON.stringify(games.slice(-MAX_GAMES)));
+}
+
+/**
+ * Insert or update a board's record. A solved record is never changed again, and
+ * time-only changes aren't written (the timer ticks every second).
+ */
+export function logGame(rec: GameRecord) {
+  const games = loadGames();
+  const i = games.findIndex(g => g.id === rec.id);
+  const old = games[i];
+  if (old && (old.solved || (old.moves === rec.moves && old.hintsUsed === rec.hintsUsed && !rec.solved))) return;
+  if (old) games.splice(i, 1);
+  saveGames([...games, rec]);
+}
+
+// ----- summary -----
+export const formatTime = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export interface LevelStats {
+  mode: GameMode;
+  difficulty: Difficulty;
+  topology: TopologyKind;
+  played: number;
+  solved: number;
+  bestMs: number | null;
+  medianMs: number | null;
+  efficiency: number[];  // par / moves per solved game, oldest first, capped at 1
+}
+
+export function median(xs: number[]): number | null {
+  if (!xs.length) return null;
+  const s = [...xs].sort((a, b) => a - b), mid = s.length >> 1;
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/** Per board shape + mode + level, in the order levels were first played. */
+export function summarize(games: GameRecord[]): LevelStats[] {
+  const by = new Map<string, GameRecord[]>();
+  for (const g of [...games].sort((a, b) => a.playedAt - b.playedAt)) {
+    const k = `${g.topology ?? 'square'}:${g.mode}:${g.difficulty}`;
+    by.set(k, [...(by.get(k) ?? []), g]);
+  }
+  return [...by.values()].map(list => {
+    const won = list.filter(g => g.solved);
+    const times = won.map(g => g.timeMs);
+    return {
+      mode: list[0].mode, difficulty: list[0].difficulty, topology: list[0].topology ?? 'square',
+      played: list.length, solved: won.length,
+      bestMs: times.length ? Math.min(...times) : null,
+      medianMs: median(times),
+      efficiency: won.filter(g => g.par !== null).map(g => g.moves ? Math.min(1, g.par! / g.moves) : 1),
+    };
+  });
+}
+
+// ----- export / import -----
+export interface StatsExport { app: 'zen-loops'; v: 1; exportedAt: number; games: GameRecord[]; daily: DailyLog; }
+
+export function exportStats(): string {
+  const data: StatsExport = { app: 'zen-loops', v: 1, exportedAt: Date.now(), games: loadGames(), daily: loadDailyLog() };
+  return JSON.stringify(data, null, 2);
+}
+
+/** Check an export file; anything malformed is rejected as a whole. */
+export function parseExport(text: string): StatsExport | null {
+  let v: unknown;
+  try { v = JSON.parse(text); } catch { return null; }
+  if (!isObj(v) || v.app !== 'zen-loops' || v.v !== 1) return null;
+  if (!Array.isArray(v.games) || !v.games.every(isRecord) || !isDailyLog(v.daily)) return null;
+  return v as unknown as StatsExport;
+}
+
+/** Combine two logs by id; a solved record beats an unsolved one, otherwise the newer wins. */
+export function mergeGames(a: GameRecord[], b: GameRecord[]): GameRecord[] {
+  const out = new Map(a.map(g => [g.id, g]));
+  for (const g of b) {
+    const old = out.get(g.id);
+    if (!old || (g.solved && !old.solved) || (g.solved === old.solved && !old.solved && g.playedAt > old.playedAt)) out.set(g.id, g);
+  }
+  return [...out.values()].sort((x, y) => x.playedAt - y.playedAt);
+}
+
+/** Same rule for daily results: the first solve of a day sticks. */
+export function mergeDaily(a: DailyLog, b: DailyLog): DailyLog {
+  const out = { ...a };
+  for (const [k, e] of Object.entries(b)) if (!out[k] || (e.solved && !out[k].solved)) out[k] = e;
+  return out;
+}
+
+/** Merge an export file into this device's history. Returns how many games were new, or null if the file is invalid. */
+export function importStats(text: string): number | null {
+  const data = parseExport(text);
+  if (!data) return null;
+  const games = loadGames();
+  const merged = mergeGames(games, data.games);
+  saveGames(merged);
+  saveDailyLog(mergeDaily(loadDailyLog(), data.daily));
+  return merged.length - games.length;
+}
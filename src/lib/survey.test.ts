@@ -0,0 +1,31 @@
+// src/lib/survey.test.ts
+import { describe, it, expect } from 'vitest';
+import { spread, survey } from './survey';
+import { DIFFS } from './generate';
+
+describe('spread', () => {
+  it('summarizes a list of numbers', () => {
+    expect(spread([5, 1, 3, 2, 4, 6, 7, 8, 9, 10])).toEqual({ min: 1, median: 6, p90: 10, max: 10, mean: 5.5 });
+    expect(spread([])).toBeNull();
+  });
+});
+
+describe('survey', () => {
+  it('measures every seed and holds a config to its own checks', () => {
+    const s = survey({ ...DIFFS.medium, mode: 'path' }, [1, 2, 3, 4, 5], () => 0);
+    expect(s.boards).toBe(5);
+    expect(s.unsolvable).toBe(0);
+    expect(s.capped).toBe(0);
+    expect(s.unique).toBe(5); // medium boards are generated unique
+    expect(s.par!.min).toBeGreaterThanOrEqual(DIFFS.medium.minTaps);
+    expect(s.pathLength!.min).toBeGreaterThanOrEqual(2);
+    expect(s.ms!.max).toBe(0);
+  });
+
+  it('skips counting solutions on big boards and path length on Net', () => {
+    const s = survey({ rows: 12, cols: 12, blockFraction: 0, minTaps: 0, unique: false, mode: 'net' }, [1, 2]);
+    expect(s.unique).toBeNull();
+    expect(s.pathLength).toBeNull();
+    expect(s.par).not.toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+// src/lib/survey.ts
+// Difficulty numbers for a level config over many seeds (the CLI's stats command), so the
+// DIFFS block fractions and tap minimums can be tuned from data.
+import type { GenerateRequest } from './generate';
+import { buildBoard } from './generate';
+import { countSolutions, netSolutions, solveRotations } from './pathfind';
+import { TOPOLOGIES } from './topology';
+
+export interface Spread { min: number; median: number; p90: number; max: number; mean: number; }
+export interface Survey {
+  boards: number;
+  unsolvable: number;           // par came back null
+  capped: number;               // boards the solver gave up on; their path length and par come from the maze's own route
+  unique: number | null;        // boards with one solution; null where that's too slow to count (see UNIQUE_CELLS)
+  par: Spread | null;
+  pathLength: Spread | null;    // tiles from A to B; path boards only
+  blocks: Spread | null;        // share of tiles that are blocks
+  ms: Spread | null;            // generation time per board
+}
+
+const UNIQUE_CELLS = 100; // counting solutions is an exhaustive search; past this it's skipped
+
+/** Summary of a list of numbers; null for none. */
+export function spread(values: number[]): Spread | null {
+  if (!values.length) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    min: sorted[0], median: at(0.5), p90: at(0.9), max: sorted[sorted.length - 1],
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+  };
+}
+
+/** Build a board for every seed with `req` and measure it. */
+export function survey(req: Omit<GenerateRequest, 'seed'>, seeds: Iterable<number>, clock = () => performance.now()): Survey {
+  const topo = TOPOLOGIES[req.topology ?? 'square'];
+  const countUnique = req.rows * req.cols <= UNIQUE_CELLS;
+  const pars: number[] = [], lengths: number[] = [], blocks: number[] = [], ms: number[] = [];
+  let boards = 0, unsolvable = 0, capped = 0, unique = 0;
+
+  for (const seed of seeds) {
+    const t0 = clock();
+    const { grid, ends, par, route } = buildBoard({ ...req, seed });
+    ms.push(clock() - t0);
+    boards++;
+    blocks.push(grid.flat().filter(t => t.type === 'block').length / (req.rows * req.cols));
+    if (par === null) { unsolvable++; continue; }
+    pars.push(par);
+    if (req.mode === 'path') {
+      const sol = solveRotations(grid, ends, topo);
+      if (sol === 'capped') capped++;
+      const path = sol === 'capped' ? route : sol?.path;
+      if (path?.length) lengths.push(path.length);
+      if (countUnique && countSolutions(grid, 2, ends, topo) === 1) unique++;
+    } else if (countUnique && netSolutions(grid, 2, topo).length === 1) unique++;
+  }
+
+  return {
+    boards, unsolvable, capped, unique: countUnique ? unique : null,
+    par: spread(pars), pathLength: spread(lengths), blocks: spread(blocks), ms: spread(ms),
+  };
+}
@@ -0,0 +1,31 @@
+// src/lib/textBoard.test.ts
+import { describe, it, expect } from 'vitest';
+import type { Grid } from './pathfind';
+import { renderBoard } from './textBoard';
+
+// A(0,0) → right → down → B(1,1), with a block bottom-left
+const SOLVED: Grid = [
+  [{ type: 'end', rot: 1 }, { type: 'corner', rot: 2 }],
+  [{ type: 'block', rot: 0 }, { type: 'end', rot: 0 }],
+];
+
+describe('renderBoard', () => {
+  it('draws a box character per tile, joined where a tile opens east', () => {
+    expect(renderBoard(SOLVED)).toBe('╶─┐\n▒ ╵');
+  });
+
+  it('draws each tile 3×3 in ascii with marks in place', () => {
+    expect(renderBoard(SOLVED, 'ascii', [[[0, 0], 'A'], [[1, 1], 'B']]).split('\n')).toEqual([
+      '',
+      ' A--+',
+      '    |',
+      '    |',
+      ' #  B',
+      '',
+    ]);
+  });
+
+  it('marks unlettered ends and junctions differently', () => {
+    expect(renderBoard(SOLVED, 'ascii').split('\n')[1]).toBe(' o--+');
+  });
+});
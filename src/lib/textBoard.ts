@@ -0,0 +1,38 @@
+// src/lib/textBoard.ts
+// Square boards as text, for the terminal (cli/zen-loops.ts). "box" is one box-drawing
+// character per tile, joined across; "ascii" draws each tile 3×3 in plain characters so
+// it survives any font, and shows A / B in place.
+import type { Grid, Cell } from './pathfind';
+import { maskOf } from './pathfind';
+
+export type TextStyle = 'box' | 'ascii';
+
+// indexed by opening mask: N = 1, E = 2, S = 4, W = 8 (see lib/topology)
+const BOX = ' ╵╶└╷│┌├╴┘─┴┐┤┬┼';
+const BLOCK = '▒';
+const N = 1, E = 2, S = 4, W = 8;
+
+/** Draw a square board; `marks` puts a letter on a tile (A / B, a Net source) where the style has room. */
+export function renderBoard(grid: Grid, style: TextStyle = 'box', marks: [Cell, string][] = []): string {
+  const markAt = (r: number, c: number) => marks.find(([[mr, mc]]) => mr === r && mc === c)?.[1];
+
+  if (style === 'box') {
+    return grid.map(row => row.map(t => {
+      if (t.type === 'block') return BLOCK + ' ';
+      const m = maskOf(t);
+      return BOX[m] + (m & E ? '─' : ' ');
+    }).join('').trimEnd()).join('\n');
+  }
+
+  return grid.flatMap((row, r) => {
+    const lines = ['', '', ''];
+    row.forEach((t, c) => {
+      if (t.type === 'block') { lines[0] += '   '; lines[1] += ' # '; lines[2] += '   '; return; }
+      const m = maskOf(t), centre = markAt(r, c) ?? (t.type === 'end' ? 'o' : '+');
+      lines[0] += ` ${m & N ? '|' : ' '} `;
+      lines[1] += `${m & W ? '-' : ' '}${centre}${m & E ? '-' : ' '}`;
+      lines[2] += ` ${m & S ? '|' : ' '} `;
+    });
+    return lines.map(l => l.trimEnd());
+  }).join('\n');
+}
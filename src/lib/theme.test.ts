@@ -0,0 +1,31 @@
+// src/lib/theme.test.ts
+import { describe, it, expect } from 'vitest';
+import { THEMES, parseSettings, defaultSettings, reducesMotion } from './theme';
+
+describe('parseSettings', () => {
+  it('keeps valid settings', () => {
+    expect(parseSettings({ theme: 'colorblind', motion: 'reduce' })).toEqual({ theme: 'colorblind', motion: 'reduce' });
+  });
+
+  it('falls back field by field', () => {
+    expect(parseSettings({ theme: 'neon', motion: 'full' })).toEqual({ theme: 'zen', motion: 'full' });
+    expect(parseSettings({ theme: 'contrast', motion: 1 })).toEqual({ theme: 'contrast', motion: 'system' });
+    expect(parseSettings(null)).toEqual(defaultSettings());
+    expect(parseSettings('dusk')).toEqual(defaultSettings());
+  });
+});
+
+describe('reducesMotion', () => {
+  it('follows the system unless overridden', () => {
+    expect(reducesMotion('system', true)).toBe(true);
+    expect(reducesMotion('system', false)).toBe(false);
+    expect(reducesMotion('reduce', false)).toBe(true);
+    expect(reducesMotion('full', true)).toBe(false);
+  });
+});
+
+describe('THEMES', () => {
+  it('gives connected pipes a color apart from plain ones in every palette', () => {
+    for (const { palette } of Object.values(THEMES)) expect(palette.primary).not.toBe(palette.line);
+  });
+});
@@ -0,0 +1,112 @@
+// src/lib/theme.ts
+// Palettes and motion settings. A palette is applied as CSS variables on <html> (--zl-*, which
+// Tailwind's color tokens point at, see styles/index.css), so switching needs no re-render;
+// the canvas board reads the active palette directly.
+
+export interface Palette {
+  bg: string;
+  surface: string;
+  tile: string;
+  tileLocked: string;
+  block: string;
+  line: string;     // pipes that aren't on a solved path
+  primary: string;  // connected / solved, and A
+  accent: string;   // B and hints
+  success: string;
+}
+
+export const THEMES = {
+  zen: {
+    name: 'Zen', note: 'The original teal and amber',
+    palette: {
+      bg: '#0f172a', surface: '#111827', tile: 'rgba(17, 24, 39, 0.8)', tileLocked: '#0b1220', block: 'rgba(0, 0, 0, 0.5)',
+      line: '#ffffff', primary: '#34d399', accent: '#f59e0b', success: '#a7f3d0',
+    },
+  },
+  dusk: {
+    name: 'Dusk', note: 'Violet and rose',
+    palette: {
+      bg: '#1a1026', surface: '#211533', tile: 'rgba(40, 26, 60, 0.8)', tileLocked: '#150c22', block: 'rgba(0, 0, 0, 0.5)',
+      line: '#f5f3ff', primary: '#c084fc', accent: '#fb7185', success: '#e9d5ff',
+    },
+  },
+  contrast: {
+    name: 'High contrast', note: 'Black, white, yellow and cyan',
+    palette: {
+      bg: '#000000', surface: '#000000', tile: '#1a1a1a', tileLocked: '#333333', block: '#000000',
+      line: '#ffffff', primary: '#ffd400', accent: '#00e5ff', success: '#fff59d',
+    },
+  },
+  colorblind: {
+    name: 'Colorblind safe', note: 'Blue and orange (Okabe–Ito), apart for every common color vision deficiency',
+    palette: {
+      bg: '#0f172a', surface: '#111827', tile: 'rgba(17, 24, 39, 0.8)', tileLocked: '#0b1220', block: 'rgba(0, 0, 0, 0.5)',
+      line: '#ffffff', primary: '#56b4e9', accent: '#e69f00', success: '#cce8f6',
+    },
+  },
+} satisfies Record<string, { name: string; note: string; palette: Palette }>;
+export type ThemeId = keyof typeof THEMES;
+
+// system: follow prefers-reduced-motion; reduce / full override it
+export type Motion = 'system' | 'reduce' | 'full';
+export interface Settings { theme: ThemeId; motion: Motion; }
+
+const SETTINGS_KEY = 'zenloops:settings';
+export const defaultSettings = (): Settings => ({ theme: 'zen', motion: 'system' });
+
+const CSS_VARS: Record<keyof Palette, string> = {
+  bg: '--zl-bg', surface: '--zl-surface', tile: '--zl-tile', tileLocked: '--zl-tile-locked', block: '--zl-block',
+  line: '--zl-line', primary: '--zl-primary', accent: '--zl-accent', success: '--zl-success',
+};
+
+/** Check parsed settings; unknown or missing fields fall back to the defaults. */
+export function parseSettings(v: unknown): Settings {
+  const out = defaultSettings();
+  if (typeof v !== 'object' || v === null) return out;
+  const { theme, motion } = v as Record<string, unknown>;
+  if (typeof theme === 'string' && theme in THEMES) out.theme = theme as ThemeId;
+  if (motion === 'system' || motion === 'reduce' || motion === 'full') out.motion = motion;
+  return out;
+}
+
+export function loadSettings(): Settings {
+  try {
+    return parseSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null'));
+  } catch { return defaultSettings(); }
+}
+export function saveSettings(s: Settings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(s));
+}
+
+export const reducesMotion = (motion: Motion, systemPrefers: boolean) => motion === 'reduce' || (motion === 'system' && systemPrefers);
+
+// ----- applying -----
+const reducedQuery = () => typeof matchMedia === 'function' ? matchMedia('(prefers-reduced-motion: reduce)') : null;
+let active: Settings = defaultSettings();
+let watching = false;
+
+/** The palette in use, for drawing outside CSS (BoardCanvas). */
+export const activePalette = (): Palette => THEMES[active.theme].palette;
+
+/** Put settings into effect: CSS variables, data-motion on <html>, and the browser's theme-color. */
+export function applySettings(s: Settings) {
+  active = s;
+  const root = document.documentElement, palette = THEMES[s.theme].palette;
+  for (const key of Object.keys(CSS_VARS) as (keyof Palette)[]) root.style.setProperty(CSS_VARS[key], palette[key]);
+  root.dataset.theme = s.theme;
+  root.dataset.motion = reducesMotion(s.motion, reducedQuery()?.matches ?? false) ? 'reduce' : 'full';
+
+  let meta = document.querySelector<HTMLMetaElement>('meta[name="theme-color"]');
+  if (!meta) {
+    meta = document.createElement('meta');
+    meta.name = 'theme-color';
+    document.head.append(meta);
+  }
+  meta.content = palette.bg;
+
+  // "system" has to follow the device setting if it changes while the app is open
+  if (!watching) {
+    watching = true;
+    reducedQuery()?.addEventListener('change', () => applySettings(active));
+  }
+}
@@ -0,0 +1,68 @@
+// src/lib/topology.ts
+// The shape of a board: a cell's sides, its neighbours, and the tiles that fit it.
+// Sides are numbered clockwise and a tile's openings are a bitmask over them (side i = 1 << i),
+// so one clockwise turn moves every opening one side on, on any topology.
+import type { TileType } from './pathfind';
+
+export type Dir = 'N' | 'E' | 'S' | 'W';
+export type HexDir = 'NE' | 'E' | 'SE' | 'SW' | 'W' | 'NW';
+export type Side = Dir | HexDir;
+export type TopologyKind = 'square' | 'hex';
+
+export interface Topology {
+  kind: TopologyKind;
+  sides: readonly Side[];       // clockwise; also the number of turns in a full spin
+  types: readonly TileType[];   // the pieces this board is made of, block last
+  masks: Readonly<Partial<Record<TileType, readonly number[]>>>; // openings per type, per rotation
+  back: readonly number[];      // per side, the bit of the neighbour's side facing back
+  steps(r: number): readonly (readonly [number, number])[]; // per side, [dr, dc] to the neighbour
+}
+
+/** Turn a side bitmask `rot` steps clockwise. */
+export function rotateMask(mask: number, rot: number, n: number): number {
+  const full = (1 << n) - 1;
+  return ((mask << rot) | (mask >>> (n - rot))) & full;
+}
+
+function topology(kind: TopologyKind, sides: readonly Side[], shapes: Partial<Record<TileType, number>>,
+  steps: Topology['steps']): Topology {
+  const n = sides.length;
+  const masks = Object.fromEntries(Object.entries(shapes).map(([type, m]) =>
+    [type, Array.from({ length: n }, (_, rot) => rotateMask(m, rot, n))]));
+  const types = [...Object.keys(shapes).filter(t => t !== 'block'), 'block'] as TileType[];
+  return { kind, sides, types, masks, back: sides.map((_, s) => 1 << ((s + n / 2) % n)), steps };
+}
+
+const SQUARE_STEPS = [[-1, 0], [0, 1], [1, 0], [0, -1]] as const;
+
+/** Four sides N E S W; the board the game started with. */
+export const SQUARE = topology('square', ['N', 'E', 'S', 'W'], {
+  end: 0b0001, straight: 0b0101, corner: 0b0011, tee: 0b1011, cross: 0b1111, block: 0,
+}, () => SQUARE_STEPS);
+
+// Pointy-top hexagons in rows, odd rows shifted half a tile right ("odd-r"):
+// which cells are diagonal neighbours depends on the row's parity.
+const HEX_STEPS = [
+  [[-1, 0], [0, 1], [1, 0], [1, -1], [0, -1], [-1, -1]],
+  [[-1, 1], [0, 1], [1, 1], [1, 0], [0, -1], [-1, 0]],
+] as const;
+
+/**
+ * Six sides NE E SE SW W NW. Every one- and two-arm piece is here, plus the two
+ * symmetric three-arm ones; generators only build junctions that fit one of these.
+ */
+export const HEX = topology('hex', ['NE', 'E', 'SE', 'SW', 'W', 'NW'], {
+  end: 0b000001, hook: 0b000011, bend: 0b000101, straight: 0b001001, fan: 0b000111, y: 0b010101, block: 0,
+}, (r) => HEX_STEPS[r & 1]);
+
+export const TOPOLOGIES: Record<TopologyKind, Topology> = { square: SQUARE, hex: HEX };
+
+/** The piece and rotation with exactly these openings, or null if no piece on this topology has them. */
+export function shapeOf(topo: Topology, mask: number): { type: TileType; rot: number } | null {
+  if (!mask) return { type: 'block', rot: 0 };
+  for (const type of topo.types) {
+    const rot = topo.masks[type]!.indexOf(mask);
+    if (rot >= 0) return { type, rot };
+  }
+  return null;
+}
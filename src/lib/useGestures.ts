@@ -0,0 +1,89 @@
+// src/lib/useGestures.ts
+// Pointer handlers that turn raw pointer events into Gestures (see lib/gestures).
+// Used by a single TileView, and by the canvas board where `at` picks the cell.
+import { useRef } from 'react';
+import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent } from 'react';
+import type { Gesture } from './gestures';
+import { LONG_PRESS_MS, SWIPE_FRACTION, swipeDir } from './gestures';
+
+/** Where the gesture started, in px from the element's top-left corner. */
+export type Point = { x: number; y: number };
+
+type Opts = {
+  enabled?: (at: Point) => boolean;  // e.g. not on a block
+  tileWidth?: number;                // swipe threshold basis; the element's width by default
+};
+
+// Pointers currently down and what they've turned into so far
+type Press = {
+  points: Set<number>;
+  x: number; y: number;   // client coords of the first pointer
+  at: Point;
+  minSwipe: number;       // px
+  multi: boolean;         // a second finger joined: two-finger tap
+  done: boolean;          // long-press already fired
+  timer?: number;
+};
+
+const pointIn = (e: ReactMouseEvent<Element>): Point => {
+  const box = e.currentTarget.getBoundingClientRect();
+  return { x: e.clientX - box.left, y: e.clientY - box.top };
+};
+
+export function useGestures(onGesture: (g: Gesture, at: Point) => void, { enabled = () => true, tileWidth }: Opts = {}) {
+  const press = useRef<Press | null>(null);
+  const lastPointer = useRef('mouse');
+  const endPress = () => { clearTimeout(press.current?.timer); press.current = null; };
+
+  return {
+    onPointerDown(e: ReactPointerEvent<Element>) {
+      lastPointer.current = e.pointerType;
+      const at = pointIn(e);
+      if (e.button !== 0 || !enabled(at)) return; // right button: see onContextMenu
+      const p = press.current;
+      if (p) { // another finger on the same target
+        p.points.add(e.pointerId);
+        p.multi = true;
+        clearTimeout(p.timer);
+        return;
+      }
+      e.currentTarget.setPointerCapture(e.pointerId); // keep following a swipe that leaves the target
+      const next: Press = {
+        points: new Set([e.pointerId]), x: e.clientX, y: e.clientY, at,
+        minSwipe: (tileWidth ?? e.currentTarget.getBoundingClientRect().width) * SWIPE_FRACTION,
+        multi: false, done: false,
+      };
+      next.timer = window.setTimeout(() => {
+        next.done = true;
+        navigator.vibrate?.(15);
+        onGesture({ kind: 'lock' }, at);
+      }, LONG_PRESS_MS);
+      press.current = next;
+    },
+
+    onPointerMove(e: ReactPointerEvent) {
+      const p = press.current;
+      if (!p || p.multi || !p.points.has(e.pointerId)) return;
+      if (swipeDir(e.clientX - p.x, e.clientY - p.y, p.minSwipe / 2)) clearTimeout(p.timer); // moving: not a long-press
+    },
+
+    onPointerUp(e: ReactPointerEvent) {
+      const p = press.current;
+      if (!p || !p.points.delete(e.pointerId)) return;
+      if (p.points.size) return; // wait for the last finger
+      endPress();
+      if (p.done) return;
+      if (p.multi) return onGesture({ kind: 'rotate', turn: -1 }, p.at);
+      const dir = swipeDir(e.clientX - p.x, e.clientY - p.y, p.minSwipe);
+      onGesture(dir ? { kind: 'swipe', dir } : { kind: 'rotate', turn: 1 }, p.at);
+    },
+
+    onPointerCancel: endPress,
+
+    onContextMenu(e: ReactMouseEvent<Element>) {
+      e.preventDefault(); // touch browsers send this on long-press too; only a real right-click turns back
+      const at = pointIn(e);
+      if (lastPointer.current === 'mouse' && enabled(at)) onGesture({ kind: 'rotate', turn: -1 }, at);
+    },
+  };
+}
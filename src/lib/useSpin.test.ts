@@ -0,0 +1,18 @@
+// src/lib/useSpin.test.ts
+import { describe, it, expect } from 'vitest';
+import { spinStep } from './useSpin';
+
+describe('spinStep', () => {
+  it('turns forward across the wrap', () => {
+    expect(spinStep(3, 0, 4)).toBe(1);
+    expect(spinStep(5, 0, 6)).toBe(1);
+    expect(spinStep(0, 1, 4)).toBe(1);
+  });
+
+  it('takes the short way back, and clockwise on a half turn', () => {
+    expect(spinStep(0, 3, 4)).toBe(-1);
+    expect(spinStep(1, 0, 6)).toBe(-1);
+    expect(spinStep(0, 2, 4)).toBe(2);
+    expect(spinStep(1, 4, 6)).toBe(3);
+  });
+});
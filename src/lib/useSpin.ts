@@ -0,0 +1,20 @@
+// src/lib/useSpin.ts
+// A tile's drawn angle as a running count of turns, so a CSS transition between rotations
+// takes the short way round: 3 → 0 is one more turn forward, not three back.
+import { useState } from 'react';
+
+/** Turns from rotation `from` to `to` on an n-sided tile: the shorter way, clockwise on a tie. */
+export function spinStep(from: number, to: number, n: number): number {
+  const d = (((to - from) % n) + n) % n;
+  return d > n / 2 ? d - n : d;
+}
+
+/** Running turn count for `rot`; multiply by the angle of one turn to draw it. */
+export function useSpin(rot: number, n: number): number {
+  const [spin, setSpin] = useState({ rot, turns: rot });
+  if (spin.rot === rot) return spin.turns;
+  // adjusting state while rendering, as React recommends for values derived from a prop's changes
+  const next = { rot, turns: spin.turns + spinStep(spin.rot, rot, n) };
+  setSpin(next);
+  return next.turns;
+}
@@ -0,0 +1,28 @@
+// src/lib/versus.test.ts
+import { describe, it, expect } from 'vitest';
+import { compareResults, challengeQuery, readChallenge } from './versus';
+
+const BOARD = 'd=custom&seed=00ABCD&r=8&c=10&b=12&a=0,0&z=7,9';
+
+describe('compareResults', () => {
+  it('ranks the faster solve first, then fewer moves', () => {
+    expect(compareResults({ moves: 20, timeMs: 30_000 }, { moves: 12, timeMs: 45_000 })).toBeLessThan(0);
+    expect(compareResults({ moves: 14, timeMs: 30_000 }, { moves: 12, timeMs: 30_000 })).toBeGreaterThan(0);
+    expect(compareResults({ moves: 12, timeMs: 30_000 }, { moves: 12, timeMs: 30_000 })).toBe(0);
+  });
+});
+
+describe('challenge links', () => {
+  it('reads back the result it was signed with', async () => {
+    const query = await challengeQuery(BOARD, { moves: 17, timeMs: 52_000 });
+    expect(query.startsWith(`${BOARD}&cm=17&ct=52000&sig=`)).toBe(true);
+    expect(await readChallenge(new URLSearchParams(query))).toEqual({ moves: 17, timeMs: 52_000 });
+  });
+
+  it('rejects edited links and plain share links', async () => {
+    const query = await challengeQuery(BOARD, { moves: 17, timeMs: 52_000 });
+    expect(await readChallenge(new URLSearchParams(query.replace('cm=17', 'cm=7')))).toBeNull();
+    expect(await readChallenge(new URLSearchParams(query.replace('seed=00ABCD', 'seed=00ABCE')))).toBeNull();
+    expect(await readChallenge(new URLSearchParams(BOARD))).toBeNull();
+  });
+});
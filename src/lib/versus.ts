@@ -0,0 +1,46 @@
+// src/lib/versus.ts
+// Head-to-head play: ranking two results, and challenge links that carry the sender's result.
+// A challenge link is the board's share link plus cm (moves), ct (time in ms) and sig, an HMAC
+// over everything before it. The key ships with the app, so the signature only catches a link
+// that was edited by hand; it can't prove the sender really played that well.
+
+export interface Result { moves: number; timeMs: number; }
+
+const SIG_KEY = 'zen-loops/challenge/v1';
+const SIG_LENGTH = 16; // base64url characters kept, 96 bits
+
+/** Negative when `a` beats `b`: the faster solve wins, and fewer moves break a tie. */
+export function compareResults(a: Result, b: Result): number {
+  return a.timeMs - b.timeMs || a.moves - b.moves;
+}
+
+/** Web Crypto is only there in secure contexts (https, localhost); without it there are no challenges. */
+export const canSign = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+let key: Promise<CryptoKey> | null = null;
+const signingKey = () => key ??= crypto.subtle.importKey(
+  'raw', new TextEncoder().encode(SIG_KEY), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'],
+);
+
+// Parameters are signed as URLSearchParams prints them, decoded again (a custom board's a=r,c is printed a=r%2Cc),
+// so sender and receiver agree whatever the browser did to the link in between.
+async function sign(params: URLSearchParams): Promise<string> {
+  const text = decodeURIComponent(params.toString());
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', await signingKey(), new TextEncoder().encode(text)));
+  return btoa(String.fromCharCode(...mac)).replace(/\+/g, '-').replace(/\//g, '_').slice(0, SIG_LENGTH);
+}
+
+/** Add the sender's result and a signature to a board's query string (no leading '?'). */
+export async function challengeQuery(boardQuery: string, { moves, timeMs }: Result): Promise<string> {
+  const query = `${boardQuery}&cm=${moves}&ct=${timeMs}`;
+  return `${query}&sig=${await sign(new URLSearchParams(query))}`;
+}
+
+/** The sender's result from a challenge link's parameters, or null if there isn't one or the signature is off. */
+export async function readChallenge(params: URLSearchParams): Promise<Result | null> {
+  const sig = params.get('sig'), cm = params.get('cm'), ct = params.get('ct');
+  if (!canSign() || !sig || !cm || !ct || !/^\d+$/.test(cm) || !/^\d+$/.test(ct)) return null;
+  const rest = new URLSearchParams(params);
+  rest.delete('sig');
+  return await sign(rest) === sig ? { moves: Number(cm), timeMs: Number(ct) } : null;
+}
@@ -4,6 +4,9 @@ import './styles/index.css'; // Tailwind v4 entry
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { applySettings, loadSettings } from './lib/theme';
+
+applySettings(loadSettings()); // before the first paint, so a saved theme doesn't flash
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
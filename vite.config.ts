@@ -13,8 +13,8 @@ export default defineConfig({
       // allow testing service worker behavior during "npm run dev"
       devOptions: { enabled: true },
       workbox: {
-        // what to cache for offline use
-        globPatterns: ['**/*.{js,css,html,svg,png,webp,woff2}'],
+        // what to cache for offline use (json: the campaign's level packs under /levels)
+        globPatterns: ['**/*.{js,css,html,svg,png,webp,woff2,json}'],
       },
       manifest: {
         name: 'Zen Loops',